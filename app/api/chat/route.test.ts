@@ -0,0 +1,154 @@
+// File: app/api/chat/route.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '@/lib/hidupai/testing';
+
+// Provider dibaca saat module di-load: pakai mock tanpa network
+vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'mock';
+  process.env.MEMORY_JOBS_INLINE = 'false';
+});
+
+vi.mock('@/lib/hidupai/supabase', async () => {
+  const { createFakeSupabase } = await import('@/lib/hidupai/testing');
+  return { supabase: createFakeSupabase() };
+});
+vi.mock('@/lib/hidupai/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/hidupai/auth')>()),
+  verifyAccessToken: async () => ({ ok: true, claims: { sub: 'budi' } }),
+}));
+vi.mock('@/lib/hidupai/goals', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/hidupai/goals')>()),
+  loadCurrentGoals: vi.fn(async () => []),
+}));
+
+import { loadCurrentGoals } from '@/lib/hidupai/goals';
+import { supabase } from '@/lib/hidupai/supabase';
+import { POST } from './route';
+
+const db = supabase as unknown as FakeSupabase;
+
+const chat = (body: Record<string, unknown> = {}) =>
+  POST(
+    new Request('https://hidupai.test/api/chat', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token' },
+      body: JSON.stringify({
+        name: 'Budi',
+        messages: [{ role: 'user', content: 'Aku lagi bingung soal kerjaan' }],
+        ...body,
+      }),
+    })
+  );
+
+describe('POST /api/chat — refund kuota', () => {
+  let used: number;
+  let refunds: number;
+
+  beforeEach(() => {
+    db.tables.clear();
+    db.failures.clear();
+    db.rpcs.clear();
+    used = 0;
+    refunds = 0;
+    db.rpcs.set('consume_chat_quota', () => {
+      used++;
+      const data = [{ allowed: true, used, day: '2026-10-19' }];
+      return { data, error: null };
+    });
+    db.rpcs.set('refund_chat_quota', () => {
+      refunds++;
+      return { data: null, error: null };
+    });
+    db.seed('users', [
+      { id: 'budi', email: 'budi@example.com', plan: 'free' },
+    ]);
+  });
+
+  it('tidak me-refund kalau balasan terkirim', async () => {
+    const res = await chat();
+    expect(res.status).toBe(200);
+    expect(used).toBe(1);
+    expect(refunds).toBe(0);
+  });
+
+  it('me-refund kalau gagal sebelum model dipanggil', async () => {
+    vi.mocked(loadCurrentGoals).mockRejectedValueOnce(new Error('db down'));
+    const res = await chat();
+    expect(res.status).toBe(500);
+    expect(refunds).toBe(1);
+  });
+
+  it('me-refund sekali saja kalau stream gagal dibuka', async () => {
+    vi.mocked(loadCurrentGoals).mockRejectedValueOnce(new Error('db down'));
+    const res = await chat({ stream: true });
+    expect(res.status).toBe(500);
+    expect(refunds).toBe(1);
+  });
+
+  it('stream yang terkirim tidak di-refund', async () => {
+    const res = await chat({ stream: true });
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).toContain('event: done');
+    expect(refunds).toBe(0);
+  });
+});
+
+describe('POST /api/chat — mode per thread', () => {
+  const THREAD = '6f1c1d3e-8a7b-4c2d-9e0f-1a2b3c4d5e6f';
+
+  beforeEach(() => {
+    db.tables.clear();
+    db.rpcs.clear();
+    db.rpcs.set('consume_chat_quota', () => ({
+      data: [{ allowed: true, used: 1, day: '2026-10-19' }],
+      error: null,
+    }));
+    db.seed('users', [{ id: 'budi', email: 'budi@example.com' }]);
+    db.seed('conversations', [
+      { id: THREAD, user_id: 'budi', last_message_at: '2026-10-19' },
+    ]);
+    db.seed('conversation_messages', [
+      {
+        conversation_id: THREAD,
+        user_id: 'budi',
+        role: 'assistant',
+        content: 'Pelan-pelan ya',
+        meta: { mode: { mode: 'sedih', source: 'detected' } },
+      },
+    ]);
+  });
+
+  const modeOf = async (res: Response) => (await res.json()).meta.mode;
+
+  it('memakai ulang mode thread tanpa deteksi ulang', async () => {
+    const res = await chat({
+      conversationId: THREAD,
+      messages: [{ role: 'user', content: 'Terus gimana ya' }],
+    });
+    expect(await modeOf(res)).toEqual({
+      mode: 'sedih',
+      source: 'thread',
+      confidence: null,
+    });
+  });
+
+  it('kata kunci yang jelas tetap bisa mengganti mode', async () => {
+    const res = await chat({
+      conversationId: THREAD,
+      messages: [{ role: 'user', content: 'Akhirnya aku lulus, berhasil!' }],
+    });
+    expect(await modeOf(res)).toMatchObject({
+      mode: 'sukses',
+      source: 'detected',
+    });
+  });
+
+  it('request tanpa thread tidak memakai mode thread', async () => {
+    const res = await chat({
+      messages: [{ role: 'user', content: 'Terus gimana ya' }],
+    });
+    expect((await modeOf(res)).source).toBe('default');
+  });
+});
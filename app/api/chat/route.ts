@@ -0,0 +1,1871 @@
+// File: app/api/chat/route.ts
+// HidupAI Memory Engine v2 — PROD READY (timeout-friendly)
+
+import { NextResponse } from 'next/server';
+import { authErrorResponse, verifyAccessToken } from '@/lib/hidupai/auth';
+import { parseChatRequest } from '@/lib/hidupai/chat';
+import {
+  AI_PROVIDER,
+  GEMINI_MODEL,
+  MOCK_MODE,
+  OPENAI_API_URL,
+  OPENAI_ENABLED,
+  OPENAI_MAIN_MODEL,
+  genAI,
+  openAIHeaders,
+} from '@/lib/hidupai/config';
+import {
+  ContextReport,
+  assembleContext,
+  narrowestModel,
+  sectionBudget,
+  trimmedSections,
+  truncateToTokens,
+} from '@/lib/hidupai/context';
+import {
+  ConversationRow,
+  appendTurn,
+  findConversation,
+  loadLastExchange,
+  loadThreadHistory,
+  loadThreadMode,
+} from '@/lib/hidupai/conversations';
+import { cosineSimilarity, getEmbedding } from '@/lib/hidupai/embeddings';
+import {
+  DEFAULT_RESPONSE_FORMAT,
+  ResponseFormat,
+  canonicalReply,
+  createFormatStream,
+  formatReply,
+} from '@/lib/hidupai/format';
+import { loadCurrentGoals } from '@/lib/hidupai/goals';
+import { Locale, resolveLocale, t } from '@/lib/hidupai/i18n';
+import {
+  MEMORY_JOBS_INLINE,
+  enqueueMemoryJob,
+  processMemoryJob,
+} from '@/lib/hidupai/jobs';
+import {
+  createLogger,
+  currentRequest,
+  resolveRequestId,
+  runWithRequest,
+  setRequestUser,
+  span,
+  startSpan,
+} from '@/lib/hidupai/log';
+import { promptSafeLongTermMemory } from '@/lib/hidupai/memory';
+import { mockChatReply, streamMock } from '@/lib/hidupai/mock';
+import {
+  DEFAULT_MODE_ID,
+  ModeDefinition,
+  getAvailableModes,
+  renderModePrompt,
+} from '@/lib/hidupai/modes';
+import {
+  buildBasePrompt,
+  formatGoals,
+  memoryLabels,
+} from '@/lib/hidupai/prompts';
+import {
+  dropFlaggedLines,
+  isPromptSafeMemory,
+} from '@/lib/hidupai/screening';
+import {
+  StructuredSchema,
+  callStructured,
+  callSummarizer,
+} from '@/lib/hidupai/summarizer';
+import { supabase } from '@/lib/hidupai/supabase';
+import type { ChatMessage } from '@/lib/hidupai/types';
+import {
+  TokenUsage,
+  estimateUsage,
+  fromGeminiUsage,
+  fromOpenAIUsage,
+  recordUsage,
+} from '@/lib/hidupai/usage';
+
+export const dynamic = 'force-dynamic';
+
+const log = createLogger('chat');
+
+interface HidupAIUserRow {
+  id: string;
+  email: string;
+  is_premium: boolean;
+  plan: string | null;
+  usage_today: number | null;
+  last_used: string | null;
+  long_term_memory: string | null;
+  preferred_mode: string | null;
+  weekly_goal: string | null;
+  last_question: string | null;
+  last_response: string | null;
+  locale: string | null;
+}
+
+interface MemoryMatchRow {
+  id: string;
+  content: string;
+  similarity: number;
+  embedding: string | number[];
+  reviewed_at: string | null;
+}
+
+/* =========================================================
+ *  HUMAN MIND STACK PROMPT ENGINE
+ * =======================================================*/
+
+const getPrompt = (
+  locale: Locale,
+  name: string,
+  mode: ModeDefinition,
+  memoryBlock: string,
+  format: ResponseFormat
+): ChatMessage => ({
+  role: 'system',
+  content: `${buildBasePrompt(
+    locale,
+    name,
+    memoryBlock,
+    format
+  )}\n\n${renderModePrompt(mode, name, locale)}`,
+});
+
+/* =========================================================
+ *  LLM PROVIDERS — interface + OPENAI / GEMINI
+ * =======================================================*/
+
+type ProviderId = 'openai' | 'gemini' | 'mock';
+
+interface ProviderCallOptions {
+  signal: AbortSignal;
+  temperature?: number;
+  model?: string;
+  // Dipanggil kalau provider melaporkan jumlah token
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// Override dari definisi mode (temperature, model per provider)
+interface ModelOverrides {
+  temperature?: number;
+  models?: Partial<Record<ProviderId, string>>;
+}
+
+interface LLMProvider {
+  id: ProviderId;
+  model: string;
+  isConfigured(): boolean;
+  complete(
+    systemPrompt: ChatMessage,
+    messages: ChatMessage[],
+    opts: ProviderCallOptions
+  ): Promise<string>;
+  stream(
+    systemPrompt: ChatMessage,
+    messages: ChatMessage[],
+    opts: ProviderCallOptions
+  ): AsyncGenerator<string>;
+}
+
+interface ModelReply {
+  text: string;
+  provider: ProviderId;
+  model: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Error dari provider + status HTTP (kalau ada),
+ * dipakai untuk menentukan boleh retry atau tidak.
+ */
+class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryable = false
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+function toProviderError(err: unknown, provider: ProviderId): ProviderError {
+  if (err instanceof ProviderError) return err;
+  if (err instanceof Error && err.name === 'AbortError') {
+    return new ProviderError(`${provider} timeout`, undefined, true);
+  }
+  const status = (err as { status?: number } | null)?.status;
+  if (typeof status === 'number') {
+    return new ProviderError(
+      `${provider} error ${status}`,
+      status,
+      isRetryableStatus(status)
+    );
+  }
+  // Error jaringan (fetch failed, ECONNRESET, ...) → boleh dicoba lagi
+  const message = err instanceof Error ? err.message : String(err);
+  return new ProviderError(`${provider}: ${message}`, undefined, true);
+}
+
+async function callOpenAI(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  { signal, temperature, model, onUsage }: ProviderCallOptions
+): Promise<string> {
+  if (!OPENAI_ENABLED) {
+    throw new ProviderError('OPENAI_API_KEY missing');
+  }
+
+  const res = await fetch(OPENAI_API_URL, {
+    method: 'POST',
+    signal,
+    headers: openAIHeaders(),
+    body: JSON.stringify({
+      model: model || OPENAI_MAIN_MODEL,
+      temperature: temperature ?? 0.8,
+      messages: [systemPrompt, ...messages],
+    }),
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    log.error('openai error', { status: res.status, body: text });
+    throw new ProviderError(
+      `OpenAI error ${res.status}`,
+      res.status,
+      isRetryableStatus(res.status)
+    );
+  }
+
+  const json = await res.json();
+  const msg: string | undefined =
+    json.choices?.[0]?.message?.content?.trim();
+  if (!msg) throw new ProviderError('OpenAI returned empty', undefined, true);
+
+  const usage = fromOpenAIUsage(json.usage);
+  if (usage) onUsage?.(usage);
+  return msg;
+}
+
+async function* streamOpenAI(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  { signal, temperature, model, onUsage }: ProviderCallOptions
+): AsyncGenerator<string> {
+  if (!OPENAI_ENABLED) {
+    throw new ProviderError('OPENAI_API_KEY missing');
+  }
+
+  const res = await fetch(OPENAI_API_URL, {
+    method: 'POST',
+    signal,
+    headers: openAIHeaders(),
+    body: JSON.stringify({
+      model: model || OPENAI_MAIN_MODEL,
+      temperature: temperature ?? 0.8,
+      stream: true,
+      // Chunk terakhir (tanpa choices) membawa total usage
+      stream_options: { include_usage: true },
+      messages: [systemPrompt, ...messages],
+    }),
+  });
+
+  if (!res.ok || !res.body) {
+    const text = await res.text();
+    log.error('openai stream error', { status: res.status, body: text });
+    throw new ProviderError(
+      `OpenAI error ${res.status}`,
+      res.status,
+      isRetryableStatus(res.status)
+    );
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Format SSE OpenAI: baris "data: {...}" dan diakhiri "data: [DONE]"
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      try {
+        const json = JSON.parse(data);
+        const delta: string | undefined =
+          json.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+
+        const usage = fromOpenAIUsage(json.usage);
+        if (usage) onUsage?.(usage);
+      } catch {
+        // chunk rusak → lewati saja
+      }
+    }
+  }
+}
+
+function toGeminiRequest(systemPrompt: ChatMessage, messages: ChatMessage[]) {
+  const combined = [systemPrompt, ...messages]
+    .map((m) => `${m.role.toUpperCase()}:\n${m.content}`)
+    .join('\n\n');
+
+  return {
+    contents: [
+      {
+        role: 'user',
+        parts: [{ text: combined }],
+      },
+    ],
+  };
+}
+
+async function callGemini(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  { signal, temperature, model: modelName, onUsage }: ProviderCallOptions
+): Promise<string> {
+  if (!genAI) throw new ProviderError('GOOGLE_API_KEY missing');
+
+  const model = genAI.getGenerativeModel({
+    model: modelName || GEMINI_MODEL,
+    generationConfig: temperature !== undefined ? { temperature } : undefined,
+  });
+
+  const res = await model.generateContent(
+    toGeminiRequest(systemPrompt, messages),
+    { signal }
+  );
+
+  const text = res.response.text().trim();
+  if (!text) throw new ProviderError('Gemini returned empty', undefined, true);
+
+  const usage = fromGeminiUsage(res.response.usageMetadata);
+  if (usage) onUsage?.(usage);
+  return text;
+}
+
+async function* streamGemini(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  { signal, temperature, model: modelName, onUsage }: ProviderCallOptions
+): AsyncGenerator<string> {
+  if (!genAI) throw new ProviderError('GOOGLE_API_KEY missing');
+
+  const model = genAI.getGenerativeModel({
+    model: modelName || GEMINI_MODEL,
+    generationConfig: temperature !== undefined ? { temperature } : undefined,
+  });
+
+  const res = await model.generateContentStream(
+    toGeminiRequest(systemPrompt, messages),
+    { signal }
+  );
+
+  for await (const chunk of res.stream) {
+    const text = chunk.text();
+    if (text) yield text;
+  }
+
+  // usageMetadata final baru tersedia setelah stream habis
+  const usage = fromGeminiUsage((await res.response).usageMetadata);
+  if (usage) onUsage?.(usage);
+}
+
+const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  openai: {
+    id: 'openai',
+    model: OPENAI_MAIN_MODEL,
+    isConfigured: () => OPENAI_ENABLED,
+    complete: callOpenAI,
+    stream: streamOpenAI,
+  },
+  gemini: {
+    id: 'gemini',
+    model: GEMINI_MODEL,
+    isConfigured: () => Boolean(genAI),
+    complete: callGemini,
+    stream: streamGemini,
+  },
+  mock: {
+    id: 'mock',
+    model: 'mock-1',
+    isConfigured: () => true,
+    complete: async (_systemPrompt, messages) => mockChatReply(messages),
+    stream: streamMock,
+  },
+};
+
+/* =========================================================
+ *  PROVIDER CHAIN — timeout, retry, circuit breaker
+ * =======================================================*/
+
+// Urutan fallback, contoh: AI_PROVIDER_CHAIN=gemini,openai
+// Kalau kosong, diturunkan dari AI_PROVIDER (hybrid = openai → gemini).
+const PROVIDER_CHAIN: ProviderId[] = (() => {
+  const raw = process.env.AI_PROVIDER_CHAIN;
+  if (raw) {
+    const ids = raw
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p): p is ProviderId => Object.hasOwn(PROVIDERS, p));
+    if (ids.length) return ids;
+    log.error('AI_PROVIDER_CHAIN tidak valid', { value: raw });
+  }
+  if (AI_PROVIDER === 'mock') return ['mock'];
+  if (AI_PROVIDER === 'gemini') return ['gemini'];
+  if (AI_PROVIDER === 'openai') return ['openai'];
+  return ['openai', 'gemini'];
+})();
+
+const AI_TIMEOUT_MS = Number(process.env.AI_TIMEOUT_MS) || 25_000;
+const AI_MAX_RETRIES = Number(process.env.AI_MAX_RETRIES ?? 2);
+const AI_RETRY_BASE_MS = Number(process.env.AI_RETRY_BASE_MS) || 400;
+const BREAKER_THRESHOLD = Number(process.env.AI_BREAKER_THRESHOLD) || 3;
+const BREAKER_COOLDOWN_MS =
+  Number(process.env.AI_BREAKER_COOLDOWN_MS) || 60_000;
+
+// State breaker per instance (cukup untuk serverless yang hangat)
+const breakers = new Map<
+  ProviderId,
+  { failures: number; openUntil: number }
+>();
+
+function isCircuitOpen(id: ProviderId): boolean {
+  const state = breakers.get(id);
+  return Boolean(state && state.openUntil > Date.now());
+}
+
+function recordSuccess(id: ProviderId) {
+  breakers.delete(id);
+}
+
+function recordFailure(id: ProviderId) {
+  const state = breakers.get(id) || { failures: 0, openUntil: 0 };
+  state.failures += 1;
+  if (state.failures >= BREAKER_THRESHOLD) {
+    state.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+    state.failures = 0;
+    log.warn('circuit terbuka', {
+      provider: id,
+      cooldown_ms: BREAKER_COOLDOWN_MS,
+    });
+  }
+  breakers.set(id, state);
+}
+
+/**
+ * Model override dari mode yang ditolak provider (4xx selain 408/429)
+ * = salah konfigurasi mode, bukan provider down. Jangan buka breaker
+ * yang dipakai bersama semua user.
+ */
+function countsAsProviderFailure(
+  err: unknown,
+  provider: LLMProvider,
+  model: string
+): boolean {
+  if (model === provider.model) return true;
+  const status = (err as ProviderError | null)?.status;
+  const rejected =
+    typeof status === 'number' &&
+    status >= 400 &&
+    status < 500 &&
+    !isRetryableStatus(status);
+  return !rejected;
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function backoffDelay(attempt: number): number {
+  const base = AI_RETRY_BASE_MS * 2 ** attempt;
+  return base + Math.floor(Math.random() * base * 0.3);
+}
+
+function availableProviders(): LLMProvider[] {
+  const configured = PROVIDER_CHAIN.map((id) => PROVIDERS[id]).filter((p) =>
+    p.isConfigured()
+  );
+  const closed = configured.filter((p) => !isCircuitOpen(p.id));
+
+  // Semua breaker terbuka → tetap coba provider pertama daripada gagal total
+  return closed.length ? closed : configured.slice(0, 1);
+}
+
+/** Model yang mungkin dipakai (urutan chain), untuk budget konteks. */
+function candidateModels(overrides: ModelOverrides = {}): string[] {
+  return availableProviders().map(
+    (p) => overrides.models?.[p.id] || p.model
+  );
+}
+
+/**
+ * Jalankan satu attempt dengan timeout via AbortController,
+ * retry dengan backoff eksponensial untuk 429/5xx/timeout.
+ */
+async function withRetries<T>(
+  provider: LLMProvider,
+  attemptFn: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  let lastError: ProviderError | null = null;
+
+  for (let attempt = 0; attempt <= AI_MAX_RETRIES; attempt++) {
+    if (attempt > 0) await sleep(backoffDelay(attempt - 1));
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
+
+    try {
+      return await attemptFn(controller.signal);
+    } catch (err) {
+      lastError = toProviderError(err, provider.id);
+      log.warn('provider attempt gagal', {
+        provider: provider.id,
+        attempt: attempt + 1,
+        status: lastError.status,
+        err: lastError.message,
+      });
+      if (!lastError.retryable) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  throw lastError || new ProviderError(`${provider.id} gagal`);
+}
+
+// Teks prompt lengkap, untuk estimasi token kalau provider tidak melapor
+const promptText = (systemPrompt: ChatMessage, messages: ChatMessage[]) =>
+  [systemPrompt, ...messages].map((m) => m.content).join('\n');
+
+async function callMainModel(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  overrides: ModelOverrides = {}
+): Promise<ModelReply> {
+  const chain = availableProviders();
+  if (!chain.length) throw new ProviderError('Tidak ada provider AI aktif');
+
+  let lastError: unknown = null;
+
+  for (const provider of chain) {
+    const model = overrides.models?.[provider.id] || provider.model;
+    const reported: { usage?: TokenUsage } = {};
+    try {
+      const text = await withRetries(provider, (signal) =>
+        provider.complete(systemPrompt, messages, {
+          signal,
+          model,
+          temperature: overrides.temperature,
+          onUsage: (usage) => (reported.usage = usage),
+        })
+      );
+      recordSuccess(provider.id);
+      return {
+        text,
+        provider: provider.id,
+        model,
+        usage:
+          reported.usage ??
+          estimateUsage(promptText(systemPrompt, messages), text, model),
+      };
+    } catch (err) {
+      if (countsAsProviderFailure(err, provider, model)) {
+        recordFailure(provider.id);
+      }
+      lastError = err;
+      log.warn('provider gagal, coba provider berikutnya', {
+        provider: provider.id,
+      });
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Versi streaming dari callMainModel. Timeout & retry hanya berlaku
+ * sampai token pertama; setelah itu stream tidak bisa diulang.
+ */
+async function streamMainModel(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[],
+  overrides: ModelOverrides = {}
+): Promise<{
+  provider: ProviderId;
+  model: string;
+  first: string;
+  rest: AsyncGenerator<string>;
+  // Usage dari provider setelah stream habis; estimasi kalau tidak ada
+  usage(text: string): TokenUsage;
+}> {
+  const chain = availableProviders();
+  if (!chain.length) throw new ProviderError('Tidak ada provider AI aktif');
+
+  let lastError: unknown = null;
+
+  for (const provider of chain) {
+    const model = overrides.models?.[provider.id] || provider.model;
+    const reported: { usage?: TokenUsage } = {};
+    try {
+      const opened = await withRetries(provider, async (signal) => {
+        const tokens = provider.stream(systemPrompt, messages, {
+          signal,
+          model,
+          temperature: overrides.temperature,
+          onUsage: (usage) => (reported.usage = usage),
+        });
+        const first = await tokens.next();
+        return { tokens, first };
+      });
+      recordSuccess(provider.id);
+
+      // Tanpa batas waktu untuk sisa stream (sudah ada token yang mengalir)
+      return {
+        provider: provider.id,
+        model,
+        first: opened.first.done ? '' : opened.first.value,
+        rest: opened.tokens,
+        usage: (text) =>
+          reported.usage ??
+          estimateUsage(promptText(systemPrompt, messages), text, model),
+      };
+    } catch (err) {
+      if (countsAsProviderFailure(err, provider, model)) {
+        recordFailure(provider.id);
+      }
+      lastError = err;
+      log.warn('provider stream gagal, coba provider berikutnya', {
+        provider: provider.id,
+      });
+    }
+  }
+
+  throw lastError;
+}
+
+/* =========================================================
+ *  RETRIEVAL (pgvector)
+ * =======================================================*/
+
+// Ranking retrieval, bisa di-tune via env
+const RETRIEVAL_THRESHOLD = Number(process.env.RETRIEVAL_THRESHOLD ?? 0.65);
+const RETRIEVAL_TOP_K = Number(process.env.RETRIEVAL_TOP_K) || 5;
+const RETRIEVAL_MMR = process.env.RETRIEVAL_MMR !== 'false';
+const RETRIEVAL_MMR_LAMBDA = Number(process.env.RETRIEVAL_MMR_LAMBDA ?? 0.7);
+const RETRIEVAL_MMR_POOL = Number(process.env.RETRIEVAL_MMR_POOL) || 4;
+
+/**
+ * Maximal Marginal Relevance: pilih kandidat yang relevan dengan query
+ * tapi tidak terlalu mirip dengan yang sudah terpilih.
+ */
+function selectWithMMR<T extends { similarity: number; vector: number[] }>(
+  candidates: T[],
+  k: number,
+  lambda: number
+): T[] {
+  const selected: T[] = [];
+  const pool = [...candidates];
+
+  while (selected.length < k && pool.length) {
+    let bestIdx = 0;
+    let bestScore = -Infinity;
+
+    pool.forEach((cand, idx) => {
+      const redundancy = selected.length
+        ? Math.max(
+            ...selected.map((s) => cosineSimilarity(cand.vector, s.vector))
+          )
+        : 0;
+      const score = lambda * cand.similarity - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIdx = idx;
+      }
+    });
+
+    selected.push(pool.splice(bestIdx, 1)[0]);
+  }
+
+  return selected;
+}
+
+function parseVector(value: string | number[]): number[] {
+  if (Array.isArray(value)) return value;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function retrieveSimilarMemories(
+  userId: string | null,
+  query: string
+): Promise<string> {
+  if (!userId || !query.trim()) return '';
+  const queryEmbedding = await getEmbedding(query);
+  if (!queryEmbedding) return '';
+
+  try {
+    // Ranking di database (pgvector) atas seluruh histori user,
+    // hanya vektor dari ruang (provider + model) yang sama dengan query
+    const poolSize = RETRIEVAL_MMR
+      ? RETRIEVAL_TOP_K * RETRIEVAL_MMR_POOL
+      : RETRIEVAL_TOP_K;
+
+    const { data: rows, error } = await supabase.rpc(
+      'match_memory_embeddings',
+      {
+        p_user_id: userId,
+        p_provider: queryEmbedding.provider,
+        p_model: queryEmbedding.model,
+        p_query: queryEmbedding.vector,
+        p_match_threshold: RETRIEVAL_THRESHOLD,
+        p_match_count: poolSize,
+      }
+    );
+
+    if (error) {
+      log.error('retrieval rpc error', { err: error });
+      return '';
+    }
+    if (!rows || rows.length === 0) return '';
+
+    // Embedding yang dikarantina sudah disaring di RPC; yang belum
+    // direview tetap di-screen (embedding lama sebelum screening ada)
+    const typedRows = (rows as MemoryMatchRow[]).filter((row) =>
+      isPromptSafeMemory(row.content, row.reviewed_at)
+    );
+
+    const top = RETRIEVAL_MMR
+      ? selectWithMMR(
+          typedRows.map((row) => ({
+            ...row,
+            vector: parseVector(row.embedding),
+          })),
+          RETRIEVAL_TOP_K,
+          RETRIEVAL_MMR_LAMBDA
+        )
+      : typedRows.slice(0, RETRIEVAL_TOP_K);
+
+    return top.map((m) => `- ${m.content}`).join('\n');
+  } catch (err) {
+    log.error('retrieval error', { err });
+    return '';
+  }
+}
+
+/* =========================================================
+ *  MODE DETECTION — emosi & intent dari pesan terakhir
+ * =======================================================*/
+
+type DetectableMode = 'pagi' | 'mentok' | 'sedih' | 'sukses';
+
+interface ModeDecision {
+  mode: string;
+  source: 'request' | 'preference' | 'detected' | 'thread' | 'default';
+  confidence: number | null;
+}
+
+const MODE_DETECTION_THRESHOLD =
+  Number(process.env.MODE_DETECTION_THRESHOLD) || 0.6;
+
+const MODE_KEYWORDS: Record<DetectableMode, RegExp> = {
+  pagi:
+    /\b(selamat pagi|pagi ini|baru bangun|good morning|met pagi|just woke up|this morning)\b/g,
+  mentok:
+    /\b(buntu|mentok|stuck|bingung|gak tau harus|nggak tau harus|overthinking|gak bisa fokus|ga bisa fokus|prokrastinasi|males banget|keliru|confused|procrastinat\w*|can'?t focus)\b/g,
+  sedih:
+    /\b(sedih|nangis|menangis|kecewa|patah hati|kesepian|hancur|capek banget|lelah banget|down banget|galau|sad|lonely|heartbroken|exhausted)\b/g,
+  sukses:
+    /\b(berhasil|lulus|diterima|akhirnya bisa|senang banget|seneng banget|promosi|menang|yeay|alhamdulillah|berjaya|i did it|got accepted|got promoted|passed)\b/g,
+};
+
+/**
+ * Heuristik cepat berbasis kata kunci. Confidence naik sesuai jumlah
+ * kecocokan, dan turun kalau ada mode lain yang juga cocok.
+ */
+function detectModeByKeywords(
+  text: string
+): { mode: DetectableMode; confidence: number } | null {
+  const normalized = text.toLowerCase();
+  const scores = (Object.keys(MODE_KEYWORDS) as DetectableMode[])
+    .map((mode) => ({
+      mode,
+      hits: normalized.match(MODE_KEYWORDS[mode])?.length ?? 0,
+    }))
+    .filter((s) => s.hits > 0)
+    .sort((a, b) => b.hits - a.hits);
+
+  if (!scores.length) return null;
+
+  const [best, runnerUp] = scores;
+  let confidence = Math.min(0.5 + 0.2 * (best.hits - 1), 0.9);
+  if (runnerUp) confidence -= 0.15 * runnerUp.hits;
+
+  return { mode: best.mode, confidence: Math.max(confidence, 0) };
+}
+
+// Deteksi model menunda token pertama: lewat batas ini → mode default
+const MODE_DETECTION_TIMEOUT_MS =
+  Number(process.env.MODE_DETECTION_TIMEOUT_MS) || 1_500;
+
+async function detectModeWithModel(
+  text: string
+): Promise<{ mode: string; confidence: number } | null> {
+  if (MOCK_MODE) return null;
+
+  try {
+    const raw = await callSummarizer(
+      [
+        {
+          role: 'system',
+          content: `
+Klasifikasikan emosi & kebutuhan utama dari pesan user berikut ke salah satu mode:
+- pagi: menyapa pagi / memulai hari
+- mentok: buntu, bingung, stuck, overthinking
+- sedih: sedih, letih, kecewa, kesepian
+- sukses: senang, merayakan pencapaian
+- umum: tidak ada yang dominan
+Jawab HANYA JSON: {"mode":"pagi|mentok|sedih|sukses|umum","confidence":0.0-1.0}`.trim(),
+        },
+        { role: 'user', content: text },
+      ],
+      { timeoutMs: MODE_DETECTION_TIMEOUT_MS }
+    );
+
+    const json = JSON.parse(raw?.match(/\{[\s\S]*\}/)?.[0] || 'null');
+    const confidence = Number(json?.confidence);
+    if (!json || typeof json.mode !== 'string' || Number.isNaN(confidence)) {
+      return null;
+    }
+
+    return {
+      mode: json.mode,
+      confidence: Math.min(Math.max(confidence, 0), 1),
+    };
+  } catch (err) {
+    log.error('mode detection error', { err });
+    return null;
+  }
+}
+
+// Sumber keputusan yang berasal dari deteksi; boleh dipakai ulang di
+// giliran berikutnya dalam thread yang sama
+const DETECTED_SOURCES: ModeDecision['source'][] = [
+  'detected',
+  'thread',
+  'default',
+];
+
+/**
+ * Pilih mode: dari request > preferensi user > deteksi otomatis > umum.
+ * Dalam thread, deteksi lewat model hanya di giliran pertama; giliran
+ * berikutnya memakai ulang mode thread kecuali kata kunci jelas berubah.
+ */
+async function resolveMode(
+  requested: string | undefined,
+  preferred: string | null,
+  messages: ChatMessage[],
+  conversationId: string | null
+): Promise<ModeDecision> {
+  if (requested) {
+    return { mode: requested, source: 'request', confidence: null };
+  }
+  if (preferred) {
+    return { mode: preferred, source: 'preference', confidence: null };
+  }
+
+  // Beberapa pesan user terakhir, yang terbaru paling berpengaruh
+  const recentText = messages
+    .filter((m) => m.role === 'user')
+    .slice(-3)
+    .map((m) => m.content)
+    .join('\n');
+
+  const fallback: ModeDecision = {
+    mode: '',
+    source: 'default',
+    confidence: null,
+  };
+  if (!recentText.trim()) return fallback;
+
+  const keyword = detectModeByKeywords(recentText);
+  if (keyword && keyword.confidence >= MODE_DETECTION_THRESHOLD) {
+    return { ...keyword, source: 'detected' };
+  }
+
+  const previous = conversationId
+    ? await loadThreadMode(conversationId)
+    : null;
+  if (previous && (DETECTED_SOURCES as string[]).includes(previous.source)) {
+    return { mode: previous.mode, source: 'thread', confidence: null };
+  }
+
+  const model = await detectModeWithModel(recentText);
+  const best =
+    model && Object.hasOwn(MODE_KEYWORDS, model.mode) ? model : keyword;
+
+  if (best && best.confidence >= MODE_DETECTION_THRESHOLD) {
+    return { mode: best.mode, source: 'detected', confidence: best.confidence };
+  }
+
+  return { ...fallback, confidence: best?.confidence ?? null };
+}
+
+/* =========================================================
+ *  SAFETY — CRISIS & SELF-HARM DETECTION
+ * =======================================================*/
+
+type CrisisCategory = 'suicide' | 'self_harm' | 'abuse';
+type CrisisRisk = 'none' | 'medium' | 'high';
+
+interface CrisisAssessment {
+  risk: CrisisRisk;
+  category: CrisisCategory | null;
+  source: 'lexicon' | 'model' | null;
+  matches: string[];
+}
+
+// strong = niat eksplisit → langsung high; weak = perlu dicek model
+const CRISIS_LEXICON: {
+  category: CrisisCategory;
+  strength: 'strong' | 'weak';
+  pattern: RegExp;
+}[] = [
+  {
+    category: 'suicide',
+    strength: 'strong',
+    pattern:
+      /\b(bunuh diri|ingin mati|pengen mati|pgn mati|mau mati aja|akhiri hidup|mengakhiri hidup(ku)?|gak mau hidup lagi|nggak mau hidup lagi|tidak ingin hidup lagi|lebih baik aku mati|nak mati|nak bunuh diri|tak nak hidup lagi|kill myself|end my life|want to die|wanna die|better off dead|suicide)\b/,
+  },
+  {
+    category: 'suicide',
+    strength: 'weak',
+    pattern:
+      /\b(capek hidup|cape hidup|lelah hidup|gak ada gunanya hidup|hilang aja dari dunia|pengen menghilang|ga kuat lagi|nggak kuat lagi|menyerah sama hidup|penat hidup|tired of living|can'?t go on|no reason to live)\b/,
+  },
+  {
+    category: 'self_harm',
+    strength: 'strong',
+    pattern:
+      /\b(nyilet|menyilet|menyayat (tangan|diri)|melukai diri|self[- ]?harm|overdosis|minum obat banyak banget|cutting myself|hurt myself|hurting myself|overdose)\b/,
+  },
+  {
+    category: 'abuse',
+    strength: 'strong',
+    pattern:
+      /\b(diperkosa|lagi dipukuli|sedang dipukuli|diancam dibunuh|mau dibunuh|dia mau membunuhku|dia mau bunuh aku|dikurung (di rumah|di kamar)|disekap|nak dibunuh|dipukul sampai berdarah|being raped|raped me|going to kill me|threatening to kill me|locked me (in|up))\b/,
+  },
+  {
+    category: 'abuse',
+    strength: 'weak',
+    pattern:
+      /\b(dipukuli|dipukul terus|disiksa|dilecehkan|dianiaya|kdrt|kekerasan dalam rumah tangga|dipukul|didera|abused|beaten up|being hit)\b/,
+  },
+];
+
+// always = model selalu ikut cek; lexicon = hanya saat ada sinyal
+const SAFETY_MODEL_CHECK = process.env.SAFETY_MODEL_CHECK || 'lexicon';
+// Cek model ada di jalur chat (sebelum quota): harus cepat
+const SAFETY_MODEL_TIMEOUT_MS =
+  Number(process.env.SAFETY_MODEL_TIMEOUT_MS) || 4_000;
+
+const CRISIS_CHECK_SCHEMA: StructuredSchema = {
+  name: 'crisis_check',
+  schema: {
+    type: 'object',
+    properties: {
+      risk: { type: 'string', enum: ['none', 'medium', 'high'] },
+      category: {
+        type: 'string',
+        enum: ['suicide', 'self_harm', 'abuse', 'none'],
+      },
+    },
+    required: ['risk', 'category'],
+  },
+};
+
+function scanCrisisLexicon(text: string): CrisisAssessment {
+  const normalized = text.toLowerCase().replace(/\s+/g, ' ');
+  const assessment: CrisisAssessment = {
+    risk: 'none',
+    category: null,
+    source: null,
+    matches: [],
+  };
+
+  for (const entry of CRISIS_LEXICON) {
+    const match = normalized.match(entry.pattern);
+    if (!match) continue;
+
+    assessment.matches.push(match[0]);
+    const risk: CrisisRisk = entry.strength === 'strong' ? 'high' : 'medium';
+    if (assessment.risk !== 'high') {
+      assessment.risk = risk;
+      assessment.category = entry.category;
+      assessment.source = 'lexicon';
+    }
+  }
+
+  return assessment;
+}
+
+/**
+ * Classifier lewat provider structured (OpenAI / Gemini / mock) dengan
+ * batas waktu. null = tidak tersedia / timeout / output tidak valid.
+ */
+async function modelCrisisCheck(
+  text: string
+): Promise<{ risk: CrisisRisk; category: CrisisCategory | null } | null> {
+  try {
+    const raw = await callStructured(
+      [
+        {
+          role: 'system',
+          content: `
+Kamu classifier keselamatan. Nilai pesan berikut untuk risiko bunuh diri,
+menyakiti diri, atau kekerasan/abuse yang sedang dialami penulis.
+Jawab HANYA JSON: {"risk":"none|medium|high","category":"suicide|self_harm|abuse|none"}
+high = ada niat, rencana, atau bahaya yang sedang berlangsung.`.trim(),
+        },
+        { role: 'user', content: text },
+      ],
+      CRISIS_CHECK_SCHEMA,
+      { timeoutMs: SAFETY_MODEL_TIMEOUT_MS }
+    );
+    if (!raw) {
+      log.warn('safety model check tidak tersedia');
+      return null;
+    }
+
+    const json = JSON.parse(raw.match(/\{[\s\S]*\}/)?.[0] || 'null');
+    if (!json || !['none', 'medium', 'high'].includes(json.risk)) return null;
+
+    const category = ['suicide', 'self_harm', 'abuse'].includes(json.category)
+      ? (json.category as CrisisCategory)
+      : null;
+    return { risk: json.risk as CrisisRisk, category };
+  } catch (err) {
+    log.error('safety model check error', { err });
+    return null;
+  }
+}
+
+/**
+ * Lexicon dulu (cepat); sinyal lemah dikonfirmasi model.
+ * Kalau model tidak tersedia, sinyal lemah hanya dicatat (tidak diblok).
+ */
+async function assessCrisisRisk(text: string): Promise<CrisisAssessment> {
+  const lexicon = scanCrisisLexicon(text);
+  if (lexicon.risk === 'high') return lexicon;
+
+  const needsModel =
+    lexicon.risk === 'medium' || SAFETY_MODEL_CHECK === 'always';
+  if (!needsModel) return lexicon;
+
+  const model = await modelCrisisCheck(text);
+  if (!model || model.risk === 'none') return lexicon;
+
+  return {
+    risk: model.risk,
+    category: model.category || lexicon.category || 'suicide',
+    source: 'model',
+    matches: lexicon.matches,
+  };
+}
+
+async function recordSafetyFlag(
+  userId: string,
+  text: string,
+  assessment: CrisisAssessment
+) {
+  const { error } = await supabase.from('safety_flags').insert({
+    user_id: userId,
+    risk: assessment.risk,
+    category: assessment.category,
+    source: assessment.source,
+    matches: assessment.matches,
+    message: text,
+  });
+  if (error) log.error('safety flag insert error', { err: error });
+}
+
+/* =========================================================
+ *  QUOTA — ATOMIC PER PLAN
+ * =======================================================*/
+
+// Limit harian per plan, bisa dioverride via env, contoh:
+// HIDUPAI_PLAN_LIMITS='{"free":5,"premium":200,"team":null}'
+// null = tanpa batas (tetap dihitung).
+const DEFAULT_PLAN_LIMITS: Record<string, number | null> = {
+  free: 5,
+  premium: 200,
+};
+
+const PLAN_LIMITS: Record<string, number | null> = (() => {
+  try {
+    const raw = process.env.HIDUPAI_PLAN_LIMITS;
+    return raw
+      ? { ...DEFAULT_PLAN_LIMITS, ...JSON.parse(raw) }
+      : DEFAULT_PLAN_LIMITS;
+  } catch {
+    log.error('HIDUPAI_PLAN_LIMITS bukan JSON valid');
+    return DEFAULT_PLAN_LIMITS;
+  }
+})();
+
+interface QuotaResult {
+  allowed: boolean;
+  used: number;
+  limit: number | null;
+  day: string;
+}
+
+function resolvePlan(user: HidupAIUserRow): string {
+  if (user.plan && Object.hasOwn(PLAN_LIMITS, user.plan)) return user.plan;
+  return user.is_premium ? 'premium' : 'free';
+}
+
+/**
+ * Cek + tambah kuota dalam satu langkah atomik (RPC consume_chat_quota),
+ * jadi request paralel tidak bisa menembus limit.
+ */
+async function consumeQuota(user: HidupAIUserRow): Promise<QuotaResult> {
+  const limit = PLAN_LIMITS[resolvePlan(user)] ?? null;
+
+  const { data, error } = await supabase
+    .rpc('consume_chat_quota', { p_user_id: user.id, p_limit: limit })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`consume_chat_quota gagal: ${error?.message}`);
+  }
+
+  const row = data as { allowed: boolean; used: number; day: string };
+  return { allowed: row.allowed, used: row.used, limit, day: row.day };
+}
+
+/**
+ * Kembalikan 1 kuota kalau balasan gagal terkirim ke user.
+ */
+async function refundQuota(userId: string, day: string) {
+  const { error } = await supabase.rpc('refund_chat_quota', {
+    p_user_id: userId,
+    p_day: day,
+  });
+  if (error) log.error('quota refund error', { err: error });
+}
+
+function rateLimitHeaders(quota: QuotaResult): Record<string, string> {
+  if (quota.limit === null) return {};
+
+  // Reset di tengah malam UTC berikutnya
+  const reset = new Date(`${quota.day}T00:00:00Z`);
+  reset.setUTCDate(reset.getUTCDate() + 1);
+
+  return {
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(Math.max(quota.limit - quota.used, 0)),
+    'X-RateLimit-Reset': String(Math.floor(reset.getTime() / 1000)),
+  };
+}
+
+/* =========================================================
+ *  ROUTE HANDLER
+ * =======================================================*/
+
+/**
+ * Simpan log percakapan terakhir + jalankan memory engine.
+ * Dipanggil setelah jawaban utuh tersedia (mode biasa maupun streaming).
+ */
+async function finalizeTurn(params: {
+  name: string;
+  userId: string | null;
+  locale: Locale;
+  conversation: ConversationRow | null;
+  lastUserMessage: string;
+  aiMessage: string;
+  replyMeta: Record<string, unknown>;
+}) {
+  const {
+    name,
+    userId,
+    locale,
+    conversation,
+    lastUserMessage,
+    aiMessage,
+    replyMeta,
+  } = params;
+
+  await supabase
+    .from('users')
+    .update({
+      last_question: lastUserMessage,
+      last_response: aiMessage,
+      last_interaction: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  const messageId =
+    userId && conversation
+      ? await appendTurn({
+          userId,
+          conversation,
+          userMessage: lastUserMessage,
+          aiMessage,
+          meta: replyMeta,
+        })
+      : null;
+
+  // Memory engine lewat outbox: job tercatat dulu, baru diproses.
+  // Kalau fungsi keburu dibekukan, worker cron mengambil alih.
+  if (userId) {
+    const job = await enqueueMemoryJob({
+      userId,
+      payload: {
+        name,
+        locale,
+        lastUserMessage,
+        aiMessage,
+        requestId: currentRequest()?.requestId,
+        messageId: messageId ?? undefined,
+      },
+    });
+    if (job && MEMORY_JOBS_INLINE) {
+      processMemoryJob(job).catch((err) =>
+        log.error('memory job inline error', { jobId: job.id, err })
+      );
+    }
+  }
+}
+
+function sseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Setiap request punya request id (x-request-id masuk dipakai ulang),
+ * ikut di semua log + usage ledger dan dikembalikan di header
+ * X-Request-Id, termasuk untuk response error & SSE.
+ */
+export async function POST(req: Request) {
+  const requestId = resolveRequestId(req);
+
+  return runWithRequest({ requestId }, async () => {
+    const startedAt = performance.now();
+    const res = await handleChat(req);
+    res.headers.set('X-Request-Id', requestId);
+
+    // SSE: dicatat saat header terkirim, stream masih berjalan
+    const contentType = res.headers.get('Content-Type') || '';
+    log.info('request selesai', {
+      status: res.status,
+      stream: contentType.startsWith('text/event-stream'),
+      duration_ms: Math.round(performance.now() - startedAt),
+    });
+    return res;
+  });
+}
+
+async function handleChat(req: Request): Promise<Response> {
+  const acceptLanguage = req.headers.get('Accept-Language');
+  // Sebelum user diketahui: body.locale → Accept-Language → 'id'
+  let locale: Locale = resolveLocale(acceptLanguage);
+
+  try {
+    // Parsing + validasi body: role system dari client ditolak,
+    // ukuran dibatasi, name disanitasi sebelum masuk prompt
+    const parsed = parseChatRequest(await req.json().catch(() => undefined));
+    if (!parsed.ok) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'error.invalid_request'),
+          code: 'INVALID_REQUEST',
+          errors: parsed.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    const body = parsed.value;
+    const { messages, name, mode: rawMode } = body;
+    const format = body.format ?? DEFAULT_RESPONSE_FORMAT;
+    const wantsStream =
+      body.stream === true ||
+      (req.headers.get('Accept') || '').includes('text/event-stream');
+    locale = resolveLocale(body.locale, acceptLanguage);
+
+    // Token check — signature, exp, nbf, iss, aud
+    const endAuthSpan = startSpan('auth');
+    const token = req.headers.get('Authorization')?.split(' ')[1];
+    const auth = await verifyAccessToken(token);
+    if (!auth.ok) {
+      endAuthSpan({ ok: false, code: auth.code });
+      return authErrorResponse(auth.code, locale);
+    }
+
+    // Ambil user dari sub token (email di body tidak dipercaya)
+    const { data: user, error } = await supabase
+      .from('users')
+      .select(
+        'id, email, is_premium, plan, usage_today, last_used, long_term_memory, preferred_mode, weekly_goal, last_question, last_response, locale'
+      )
+      .eq('id', auth.claims.sub)
+      .single();
+    endAuthSpan({ ok: !error && !!user });
+    setRequestUser(auth.claims.sub);
+
+    if (error || !user) {
+      return NextResponse.json(
+        { message: t(locale, 'error.account_not_found') },
+        { status: 404 }
+      );
+    }
+
+    const typedUser = user as HidupAIUserRow;
+    locale = resolveLocale(body.locale, typedUser.locale, acceptLanguage);
+
+    if (body.email && body.email !== typedUser.email) {
+      return NextResponse.json(
+        { message: t(locale, 'error.access_denied'), code: 'EMAIL_MISMATCH' },
+        { status: 401 }
+      );
+    }
+
+    const userId: string | null = typedUser.id || null;
+
+    // Thread tersimpan → histori dari server, client cukup kirim pesan baru
+    let conversation: ConversationRow | null = null;
+    let chatMessages: ChatMessage[] = messages;
+
+    if (body.conversationId) {
+      conversation = await findConversation(typedUser.id, body.conversationId);
+      if (!conversation) {
+        return NextResponse.json(
+          {
+            message: t(locale, 'error.conversation_not_found'),
+            code: 'CONVERSATION_NOT_FOUND',
+          },
+          { status: 404 }
+        );
+      }
+
+      // Pesan terakhir sudah pasti dari user (parseChatRequest)
+      const latest = messages[messages.length - 1];
+      chatMessages = [...(await loadThreadHistory(conversation.id)), latest];
+    }
+
+    // Mode dari request harus terdaftar (bawaan, global, atau personal)
+    const availableModes = await getAvailableModes(userId);
+    const findMode = (id: string | null | undefined) =>
+      id ? availableModes.find((m) => m.id === id) : undefined;
+
+    if (rawMode && !findMode(rawMode)) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'error.unknown_mode', { mode: rawMode }),
+          code: 'UNKNOWN_MODE',
+          availableModes: availableModes.map((m) => m.id),
+        },
+        { status: 400 }
+      );
+    }
+
+    /* ===== SAFETY — sebelum kuota & model ===== */
+
+    const latestUserText =
+      [...chatMessages].reverse().find((m) => m.role === 'user')?.content ||
+      '';
+    const crisis = await assessCrisisRisk(latestUserText);
+
+    if (crisis.risk === 'high' && crisis.category) {
+      // Tidak memanggil model, tidak menyentuh kuota & memori
+      await recordSafetyFlag(typedUser.id, latestUserText, crisis);
+      const crisisMessage = t(locale, `crisis.${crisis.category}`);
+      const meta = { safety: 'crisis', category: crisis.category };
+
+      if (wantsStream) {
+        return new NextResponse(
+          sseEvent('delta', { text: crisisMessage }) +
+            sseEvent('done', { message: crisisMessage, meta }),
+          {
+            status: 200,
+            headers: {
+              'Content-Type': 'text/event-stream; charset=utf-8',
+              'Cache-Control': 'no-cache, no-transform',
+            },
+          }
+        );
+      }
+
+      return NextResponse.json(
+        { message: crisisMessage, meta },
+        { status: 200 }
+      );
+    }
+
+    if (crisis.risk === 'medium') {
+      await recordSafetyFlag(typedUser.id, latestUserText, crisis);
+    }
+
+    /* ===== KUOTA ===== */
+
+    const quota = await span('quota', () => consumeQuota(typedUser));
+
+    if (!quota.allowed) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'error.quota_exceeded', {
+            limit: String(quota.limit),
+          }),
+          code: 'QUOTA_EXCEEDED',
+        },
+        { status: 429, headers: rateLimitHeaders(quota) }
+      );
+    }
+
+    // Mulai dari sini kuota sudah terpakai: apa pun yang gagal sebelum
+    // balasan terkirim (memori, model, finalize) mengembalikan kuota
+    let delivered = false;
+    try {
+      /* ===== MAIN CHAT ===== */
+
+      // Mode, goal, memori, retrieval sampai context siap dikirim
+      const endMemorySpan = startSpan('memory.assemble');
+
+      // preferred_mode lama yang sudah tidak ada → abaikan saja
+      const modeDecision = await resolveMode(
+        rawMode,
+        findMode(typedUser.preferred_mode)?.id ?? null,
+        chatMessages,
+        conversation?.id ?? null
+      );
+      const modeDef =
+        findMode(modeDecision.mode) || findMode(DEFAULT_MODE_ID)!;
+      const modelOverrides = {
+        temperature: modeDef.temperature,
+        models: modeDef.model,
+      };
+      // Goal terstruktur; weekly_goal lama hanya fallback
+      const goals = userId ? await loadCurrentGoals(userId) : [];
+      // Goal = teks user: ikut pagar <memory_data> bersama memori lain,
+      // dan di-screen seperti memori (formatGoals / dropFlaggedLines)
+      const goalBlock = goals.length
+        ? formatGoals(goals, locale)
+        : dropFlaggedLines(typedUser.weekly_goal || '');
+      // Baris ringkasan yang mirip instruksi dibuang, kecuali sudah direview
+      const memorySummary = await promptSafeLongTermMemory(
+        userId,
+        typedUser.long_term_memory || ''
+      );
+
+      // Ambil beberapa memori panjang terakhir
+      let recentMemoryBlock = '';
+      try {
+        if (userId) {
+          const { data: rows, error: memError } = await supabase
+            .from('long_term_memories')
+            .select('content, reviewed_at')
+            .eq('user_id', userId)
+            .eq('quarantined', false)
+            .order('created_at', { ascending: false })
+            .limit(5);
+
+          if (!memError && rows && rows.length > 0) {
+            recentMemoryBlock = rows
+              .filter((r) => isPromptSafeMemory(r.content, r.reviewed_at))
+              .map((r) => r.content as string)
+              .join('\n');
+          }
+        }
+      } catch {
+        recentMemoryBlock = '';
+      }
+
+      // Memori yang dipin user → selalu ikut di prompt
+      let pinnedBlock = '';
+      try {
+        if (userId) {
+          const [pinnedInsights, pinnedEpisodes] = await Promise.all([
+            supabase
+              .from('long_term_memories')
+              .select('content, reviewed_at')
+              .eq('user_id', userId)
+              .eq('pinned', true)
+              .eq('quarantined', false)
+              .order('created_at', { ascending: false })
+              .limit(10),
+            supabase
+              .from('episodic_memories')
+              .select('summary, reviewed_at')
+              .eq('user_id', userId)
+              .eq('pinned', true)
+              .eq('quarantined', false)
+              .order('created_at', { ascending: false })
+              .limit(10),
+          ]);
+
+          pinnedBlock = [
+            ...(pinnedInsights.data || [])
+              .filter((r) => isPromptSafeMemory(r.content, r.reviewed_at))
+              .map((r) => r.content as string),
+            ...(pinnedEpisodes.data || [])
+              .filter((r) => isPromptSafeMemory(r.summary, r.reviewed_at))
+              .map((r) => `- ${r.summary as string}`),
+          ].join('\n');
+        }
+      } catch {
+        pinnedBlock = '';
+      }
+
+      const labels = memoryLabels(locale);
+      const contextModels = candidateModels(modelOverrides);
+
+      // Percakapan terakhir: dari thread sebelumnya kalau pakai thread,
+      // selain itu dari kolom users (client lama)
+      const lastExchange = conversation
+        ? await loadLastExchange(typedUser.id, conversation.id)
+        : null;
+      const lastQuestion = conversation
+        ? lastExchange?.question || ''
+        : typedUser.last_question || '';
+      const lastResponse = conversation
+        ? lastExchange?.answer || ''
+        : typedUser.last_response || '';
+
+      // q & a berbagi budget section-nya
+      let lastConversationBlock = '';
+      if (lastQuestion || lastResponse) {
+        const contextModel = narrowestModel(contextModels);
+        const turnBudget = Math.floor(sectionBudget('lastConversation') / 2);
+        const q = truncateToTokens(lastQuestion, turnBudget - 20, contextModel);
+        const a = truncateToTokens(lastResponse, turnBudget - 20, contextModel);
+
+        lastConversationBlock = `
+  ${labels.lastConversation}
+  - ${name}: ${q || labels.noLastQuestion}
+  - HidupAI: ${a || labels.noLastAnswer}
+  `.trim();
+      }
+
+      // Retrieval memori mirip (Memory Engine v2)
+      const lastUserMessage =
+        chatMessages[chatMessages.length - 1]?.content || '';
+
+      const retrievedBlock = await span('memory.retrieve', () =>
+        retrieveSimilarMemories(userId, lastUserMessage)
+      );
+
+      const lifeMemoryBlock = [memorySummary, recentMemoryBlock]
+        .filter(Boolean)
+        .join('\n');
+
+      // Budget token per section; urutan key = prioritas
+      const context = assembleContext({
+        models: contextModels,
+        name,
+        systemPrompt: getPrompt(locale, name, modeDef, '', format).content,
+        sections: {
+          goal: goalBlock,
+          pinned: pinnedBlock,
+          lastConversation: lastConversationBlock,
+          lifeMemory: lifeMemoryBlock,
+          retrieved: retrievedBlock,
+        },
+        history: chatMessages,
+      });
+      const fitted = context.sections;
+
+      const trimmed = trimmedSections(context.report);
+      if (trimmed.length) {
+        log.info('context dipotong', {
+          sections: trimmed,
+          history: context.report.history,
+        });
+      }
+
+      const memoryParts: string[] = [];
+
+      if (fitted.goal) {
+        memoryParts.push(
+          goals.length
+            ? `${labels.goals}\n${fitted.goal}`
+            : labels.weeklyGoal(fitted.goal)
+        );
+      }
+
+      if (fitted.pinned) {
+        memoryParts.push(`${labels.pinned}\n${fitted.pinned}`);
+      }
+
+      if (fitted.lastConversation) {
+        memoryParts.push(fitted.lastConversation);
+      }
+
+      if (fitted.lifeMemory) {
+        memoryParts.push(`${labels.lifeMemory}\n${fitted.lifeMemory}`);
+      }
+
+      if (fitted.retrieved) {
+        memoryParts.push(`${labels.relevantMemory}\n${fitted.retrieved}`);
+      }
+
+      if (fitted.historySummary) {
+        memoryParts.push(`${labels.earlierTurns}\n${fitted.historySummary}`);
+      }
+
+      const memoryBlock = memoryParts.join('\n\n');
+
+      const systemPrompt = getPrompt(
+        locale,
+        name,
+        modeDef,
+        memoryBlock,
+        format
+      );
+      const history = context.history;
+      endMemorySpan({ mode: modeDecision.mode });
+
+      if (wantsStream) {
+        const res = await streamChatResponse({
+          systemPrompt,
+          messages: history,
+          quota,
+          modeDecision,
+          contextReport: context.report,
+          modelOverrides,
+          name,
+          userId,
+          locale,
+          conversation,
+          lastUserMessage,
+          format,
+        });
+        // Stream yang sudah terbuka mengurus refund-nya sendiri
+        delivered = res.status === 200;
+        return res;
+      }
+
+      let reply: ModelReply;
+      try {
+        reply = await span('model.call', () =>
+          callMainModel(systemPrompt, history, modelOverrides)
+        );
+      } catch (err) {
+        log.error('main model error', { err });
+        return NextResponse.json(
+          { message: t(locale, 'error.model_unavailable') },
+          { status: 500 }
+        );
+      }
+
+      // Client dapat format yang diminta; yang disimpan selalu kanonik
+      const aiMessage = formatReply(reply.text, format, locale);
+
+      await recordUsage({
+        kind: 'chat',
+        provider: reply.provider,
+        model: reply.model,
+        usage: reply.usage,
+      });
+
+      /* ===== UPDATE LOG + MEMORY ENGINE ===== */
+
+      const replyMeta = {
+        provider: reply.provider,
+        model: reply.model,
+        mode: modeDecision,
+      };
+
+      await finalizeTurn({
+        name,
+        userId,
+        locale,
+        conversation,
+        lastUserMessage,
+        aiMessage: canonicalReply(reply.text),
+        replyMeta,
+      });
+
+      delivered = true;
+      return NextResponse.json(
+        {
+          message: aiMessage,
+          meta: {
+            ...replyMeta,
+            format,
+            conversationId: conversation?.id ?? null,
+            context: context.report,
+          },
+        },
+        { status: 200, headers: rateLimitHeaders(quota) }
+      );
+    } finally {
+      if (!delivered) await refundQuota(typedUser.id, quota.day);
+    }
+  } catch (err) {
+    log.error('fatal error di route /api/chat', { err });
+    return NextResponse.json(
+      { message: t(locale, 'error.internal') },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  STREAMING RESPONSE (SSE)
+ * =======================================================*/
+
+async function streamChatResponse(params: {
+  systemPrompt: ChatMessage;
+  messages: ChatMessage[];
+  quota: QuotaResult;
+  modeDecision: ModeDecision;
+  contextReport: ContextReport;
+  modelOverrides: ModelOverrides;
+  name: string;
+  userId: string | null;
+  locale: Locale;
+  conversation: ConversationRow | null;
+  lastUserMessage: string;
+  format: ResponseFormat;
+}): Promise<Response> {
+  const {
+    systemPrompt,
+    messages,
+    quota,
+    modeDecision,
+    contextReport,
+    modelOverrides,
+    format,
+    ...turn
+  } = params;
+
+  // Token pertama diambil dulu: kalau semua provider gagal,
+  // masih bisa balas JSON 500 seperti mode biasa.
+  let opened: Awaited<ReturnType<typeof streamMainModel>>;
+  const endStreamSpan = startSpan('model.stream');
+  try {
+    opened = await span('model.first_token', () =>
+      streamMainModel(systemPrompt, messages, modelOverrides)
+    );
+  } catch (err) {
+    endStreamSpan({ ok: false });
+    log.error('main model error', { err });
+    return NextResponse.json(
+      { message: t(turn.locale, 'error.model_unavailable') },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const formatter = createFormatStream(format, turn.locale);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // raw = output mentah model (untuk simpanan kanonik & usage),
+      // aiMessage = yang benar-benar dikirim ke client
+      let raw = '';
+      let aiMessage = '';
+      const send = (text: string) => {
+        if (!text) return;
+        aiMessage += text;
+        controller.enqueue(encoder.encode(sseEvent('delta', { text })));
+      };
+      const push = (token: string) => {
+        raw += token;
+        send(formatter.push(token));
+      };
+
+      try {
+        push(opened.first);
+        for await (const token of opened.rest) {
+          push(token);
+        }
+        send(formatter.flush());
+      } catch (err) {
+        endStreamSpan({ ok: false, provider: opened.provider });
+        log.error('stream error', { err });
+        if (turn.userId) await refundQuota(turn.userId, quota.day);
+        controller.enqueue(
+          encoder.encode(
+            sseEvent('error', {
+              message: t(turn.locale, 'error.model_unavailable'),
+            })
+          )
+        );
+        controller.close();
+        return;
+      }
+
+      endStreamSpan({ provider: opened.provider, model: opened.model });
+
+      const replyMeta = {
+        provider: opened.provider,
+        model: opened.model,
+        mode: modeDecision,
+      };
+
+      // Usage + log + outbox memori disimpan SEBELUM done/close: setelah
+      // response selesai fungsi serverless bisa dibekukan kapan saja
+      if (aiMessage) {
+        try {
+          await recordUsage({
+            kind: 'chat',
+            provider: opened.provider,
+            model: opened.model,
+            usage: opened.usage(raw),
+          });
+          await finalizeTurn({
+            ...turn,
+            aiMessage: canonicalReply(raw),
+            replyMeta,
+          });
+        } catch (err) {
+          log.error('finalize stream error', { err });
+        }
+      }
+
+      controller.enqueue(
+        encoder.encode(
+          sseEvent('done', {
+            message: aiMessage,
+            meta: {
+              ...replyMeta,
+              format,
+              conversationId: turn.conversation?.id ?? null,
+              context: contextReport,
+            },
+          })
+        )
+      );
+      controller.close();
+    },
+  });
+
+  return new NextResponse(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...rateLimitHeaders(quota),
+    },
+  });
+}
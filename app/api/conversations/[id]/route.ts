@@ -0,0 +1,181 @@
+// File: app/api/conversations/[id]/route.ts
+// HidupAI Conversations API — ambil, ganti judul & hapus satu thread
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import {
+  MAX_TITLE_LENGTH,
+  MESSAGE_COLUMNS,
+  findConversation,
+} from '@/lib/hidupai/conversations';
+import { createLogger } from '@/lib/hidupai/log';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('conversations api');
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+type PatchBody = {
+  title?: string;
+};
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function notFound() {
+  return NextResponse.json(
+    { message: 'Percakapan tidak ditemukan' },
+    { status: 404 }
+  );
+}
+
+/* =========================================================
+ *  GET — thread + pesan (terbaru dulu, ?before= untuk halaman lama)
+ * =======================================================*/
+
+export async function GET(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const conversation = await findConversation(auth.userId, params.id);
+    if (!conversation) return notFound();
+
+    const url = new URL(req.url);
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const before = url.searchParams.get('before');
+
+    let query = supabase
+      .from('conversation_messages')
+      .select(MESSAGE_COLUMNS)
+      .eq('conversation_id', conversation.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+    if (before) query = query.lt('created_at', before);
+
+    const { data, error } = await query;
+
+    if (error) {
+      log.error('messages error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal mengambil pesan 😥' },
+        { status: 500 }
+      );
+    }
+
+    // Dikembalikan urut lama → baru supaya mudah dirender
+    const messages = [...(data || [])].reverse();
+    const nextBefore =
+      messages.length === limit ? messages[0].created_at : null;
+
+    return NextResponse.json(
+      { conversation, messages, limit, nextBefore },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  PATCH — ganti judul
+ * =======================================================*/
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const body = (await req.json().catch(() => null)) as PatchBody | null;
+    const title = typeof body?.title === 'string' ? body.title.trim() : '';
+
+    if (!title || title.length > MAX_TITLE_LENGTH) {
+      return NextResponse.json(
+        { message: `Judul wajib diisi (maks ${MAX_TITLE_LENGTH} karakter)` },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await findConversation(auth.userId, params.id);
+    if (!conversation) return notFound();
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({ title })
+      .eq('id', conversation.id)
+      .eq('user_id', auth.userId);
+
+    if (error) {
+      log.error('rename error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal mengganti judul 😥' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { conversation: { ...conversation, title } },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  DELETE — hapus thread beserta pesannya (cascade)
+ * =======================================================*/
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const conversation = await findConversation(auth.userId, params.id);
+    if (!conversation) return notFound();
+
+    const { error } = await supabase
+      .from('conversations')
+      .delete()
+      .eq('id', conversation.id)
+      .eq('user_id', auth.userId);
+
+    if (error) {
+      log.error('delete error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menghapus percakapan 😥' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ id: conversation.id }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
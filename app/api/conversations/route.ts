@@ -0,0 +1,113 @@
+// File: app/api/conversations/route.ts
+// HidupAI Conversations API — daftar & buat thread
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import {
+  CONVERSATION_COLUMNS,
+  MAX_TITLE_LENGTH,
+  createConversation,
+} from '@/lib/hidupai/conversations';
+import { createLogger } from '@/lib/hidupai/log';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('conversations api');
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/* =========================================================
+ *  GET /api/conversations — thread terbaru dulu
+ * =======================================================*/
+
+export async function GET(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const url = new URL(req.url);
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const offset = Math.max(Number(url.searchParams.get('offset')) || 0, 0);
+
+    const { data, error, count } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS, { count: 'exact' })
+      .eq('user_id', auth.userId)
+      .order('last_message_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      log.error('list error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal mengambil percakapan 😥' },
+        { status: 500 }
+      );
+    }
+
+    const items = data || [];
+    const total = count ?? items.length;
+    const nextOffset = offset + items.length < total ? offset + limit : null;
+
+    return NextResponse.json(
+      { items, total, limit, offset, nextOffset },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  POST /api/conversations — buat thread baru
+ * =======================================================*/
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const body = (await req.json().catch(() => ({}))) as { title?: unknown };
+    const title =
+      typeof body.title === 'string' && body.title.trim()
+        ? body.title.trim()
+        : null;
+
+    if (title && title.length > MAX_TITLE_LENGTH) {
+      return NextResponse.json(
+        { message: `Judul maksimal ${MAX_TITLE_LENGTH} karakter` },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await createConversation(auth.userId, title);
+    if (!conversation) {
+      return NextResponse.json(
+        { message: 'Gagal membuat percakapan 😥' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ conversation }, { status: 201 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
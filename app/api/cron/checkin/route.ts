@@ -0,0 +1,141 @@
+// File: app/api/cron/checkin/route.ts
+// HidupAI Cron — pesan check-in awal minggu (dipanggil GitHub Actions)
+
+import { NextResponse } from 'next/server';
+import {
+  CronUserRow,
+  runBatchedJob,
+  verifyCronSecret,
+} from '@/lib/hidupai/cron';
+import { goalTitles, loadCurrentGoals } from '@/lib/hidupai/goals';
+import { resolveLocale } from '@/lib/hidupai/i18n';
+import { createLogger } from '@/lib/hidupai/log';
+import { cronPrompts, formatCronGoal } from '@/lib/hidupai/prompts';
+import { callSummarizer } from '@/lib/hidupai/summarizer';
+import { supabase } from '@/lib/hidupai/supabase';
+import { isoWeek, previousIsoWeek } from '@/lib/hidupai/week';
+
+const log = createLogger('cron checkin');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// User yang lama tidak aktif dan tanpa tujuan tidak di-check-in
+const CHECKIN_ACTIVE_DAYS = Number(process.env.CHECKIN_ACTIVE_DAYS) || 14;
+
+/**
+ * Buat satu pesan check-in untuk minggu ini. false kalau sudah ada
+ * atau user tidak memenuhi syarat.
+ */
+async function generateCheckin(
+  user: CronUserRow,
+  weekKey: string,
+  lastWeekKey: string
+): Promise<boolean> {
+  const goals = await loadCurrentGoals(user.id);
+  const goal = goalTitles(goals) || user.weekly_goal || '';
+  const activeSince = Date.now() - CHECKIN_ACTIVE_DAYS * 24 * 60 * 60 * 1000;
+  const recentlyActive =
+    !!user.last_interaction &&
+    new Date(user.last_interaction).getTime() >= activeSince;
+  if (!goal && !recentlyActive) return false;
+
+  const { data: existing } = await supabase
+    .from('checkins')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('week', weekKey)
+    .maybeSingle();
+  if (existing) return false;
+
+  const [insightRes, episodesRes] = await Promise.all([
+    supabase
+      .from('weekly_insights')
+      .select('summary')
+      .eq('user_id', user.id)
+      .eq('week', lastWeekKey)
+      .maybeSingle(),
+    supabase
+      .from('episodic_memories')
+      .select('summary')
+      .eq('user_id', user.id)
+      .eq('quarantined', false)
+      .order('created_at', { ascending: false })
+      .limit(3),
+  ]);
+
+  const locale = resolveLocale(user.locale);
+  const prompts = cronPrompts(locale);
+  const lastWeekInsight = (insightRes.data?.summary as string) || '';
+  const episodes = (episodesRes.data || []).map(
+    (e) => `- ${e.summary as string}`
+  );
+
+  const notes = [
+    lastWeekInsight ? `${prompts.lastWeekInsight}\n${lastWeekInsight}` : '',
+    episodes.length ? `${prompts.episodes}\n${episodes.join('\n')}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  let message: string | null = null;
+  if (notes) {
+    try {
+      message = await callSummarizer([
+        {
+          role: 'system',
+          content: prompts.checkin(
+            formatCronGoal(goals, user.weekly_goal, locale)
+          ),
+        },
+        { role: 'user', content: notes },
+      ]);
+    } catch (err) {
+      log.error('summarizer error', { err });
+    }
+  }
+
+  const { error } = await supabase.from('checkins').upsert(
+    {
+      user_id: user.id,
+      week: weekKey,
+      message: message || prompts.checkinFallback(goal),
+    },
+    { onConflict: 'user_id,week', ignoreDuplicates: true }
+  );
+  if (error) throw new Error(error.message);
+
+  return true;
+}
+
+export async function POST(req: Request) {
+  const denied = verifyCronSecret(req);
+  if (denied) return denied;
+
+  try {
+    const now = new Date();
+    const week = isoWeek(now);
+    const lastWeek = previousIsoWeek(now);
+
+    const result = await runBatchedJob({
+      job: 'checkin',
+      period: week.key,
+      processUser: (user) => generateCheckin(user, week.key, lastWeek.key),
+    });
+
+    // locked = batch lain sedang jalan → pemanggil cukup coba lagi
+    const done =
+      result.status === 'done' || result.status === 'already_done';
+
+    return NextResponse.json({ ...result, done }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// File: app/api/cron/memory-jobs/route.ts
+// HidupAI Cron — worker outbox memory engine (dipanggil GitHub Actions)
+
+import { NextResponse } from 'next/server';
+import { verifyCronSecret } from '@/lib/hidupai/cron';
+import { runMemoryJobs } from '@/lib/hidupai/jobs';
+import { createLogger } from '@/lib/hidupai/log';
+
+const log = createLogger('cron memory-jobs');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function POST(req: Request) {
+  const denied = verifyCronSecret(req);
+  if (denied) return denied;
+
+  try {
+    const result = await runMemoryJobs();
+
+    // done = jumlah job selesai; drained=false → masih ada job siap
+    // jalan, pemanggil boleh ulangi
+    return NextResponse.json(
+      { job: 'memory-jobs', ...result },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+// File: app/api/cron/reembed/route.ts
+// HidupAI Cron — migrasi embedding ke model baru (dipanggil manual)
+
+import { NextResponse } from 'next/server';
+import {
+  CronUserRow,
+  runBatchedJob,
+  verifyCronSecret,
+} from '@/lib/hidupai/cron';
+import {
+  EmbeddingSpace,
+  embeddingColumns,
+  getEmbeddings,
+  primaryEmbeddingSpace,
+} from '@/lib/hidupai/embeddings';
+import { createLogger } from '@/lib/hidupai/log';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('cron reembed');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const REEMBED_PAGE_SIZE = 100;
+
+/**
+ * Embed ulang semua baris user yang berasal dari ruang vektor lain
+ * (provider/model berbeda). Baris yang sudah dimigrasi tidak ikut
+ * terpilih lagi, jadi user yang terpotong di tengah (waktu habis /
+ * embedding gagal) aman diproses ulang.
+ */
+async function reembedUser(
+  user: CronUserRow,
+  target: EmbeddingSpace
+): Promise<boolean> {
+  let migrated = 0;
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('memory_embeddings')
+      .select('id, content')
+      .eq('user_id', user.id)
+      // Nama model di-quote: bisa mengandung ":" / "." (Ollama)
+      .or(
+        `provider.is.null,model.is.null,provider.neq.${target.provider},model.neq."${target.model}"`
+      )
+      .order('id', { ascending: true })
+      .limit(REEMBED_PAGE_SIZE);
+    if (error) throw new Error(error.message);
+
+    const rows = (data || []) as { id: string; content: string }[];
+    if (!rows.length) break;
+
+    // Tanpa fallback: semua vektor harus masuk ruang target
+    const result = await getEmbeddings(
+      rows.map((r) => r.content),
+      { space: target }
+    );
+    if (!result) {
+      throw new Error(
+        `embedding ${target.provider}/${target.model} tidak tersedia`
+      );
+    }
+    const { vectors } = result;
+
+    for (const [i, row] of rows.entries()) {
+      const vector = vectors[i];
+      if (!vector) continue;
+
+      const { error: updateError } = await supabase
+        .from('memory_embeddings')
+        .update(embeddingColumns({ ...target, vector }))
+        .eq('id', row.id);
+      if (updateError) throw new Error(updateError.message);
+      migrated += 1;
+    }
+
+    // Ada yang gagal di-embed → jangan loop di halaman yang sama
+    if (vectors.some((v) => !v)) {
+      throw new Error('sebagian embedding gagal, user diulang nanti');
+    }
+  }
+
+  return migrated > 0;
+}
+
+export async function POST(req: Request) {
+  const denied = verifyCronSecret(req);
+  if (denied) return denied;
+
+  try {
+    const target = primaryEmbeddingSpace();
+    if (!target) {
+      return NextResponse.json(
+        { message: 'Tidak ada provider embedding aktif' },
+        { status: 503 }
+      );
+    }
+
+    // Satu run per ruang target; ganti provider/model → run baru
+    const result = await runBatchedJob({
+      job: 'reembed',
+      period: `${target.provider}:${target.model}`,
+      processUser: (user) => reembedUser(user, target),
+      haltOnError: true,
+    });
+
+    const done =
+      result.status === 'done' || result.status === 'already_done';
+
+    return NextResponse.json({ ...result, done }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
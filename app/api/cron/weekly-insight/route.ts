@@ -0,0 +1,156 @@
+// File: app/api/cron/weekly-insight/route.ts
+// HidupAI Cron — refleksi mingguan per user (dipanggil GitHub Actions)
+
+import { NextResponse } from 'next/server';
+import {
+  CronUserRow,
+  runBatchedJob,
+  verifyCronSecret,
+} from '@/lib/hidupai/cron';
+import { GOAL_COLUMNS, Goal, goalTitles } from '@/lib/hidupai/goals';
+import { resolveLocale } from '@/lib/hidupai/i18n';
+import { createLogger } from '@/lib/hidupai/log';
+import { cronPrompts, formatCronGoal } from '@/lib/hidupai/prompts';
+import { callSummarizer } from '@/lib/hidupai/summarizer';
+import { supabase } from '@/lib/hidupai/supabase';
+import { IsoWeek, previousIsoWeek } from '@/lib/hidupai/week';
+
+const log = createLogger('cron weekly-insight');
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+const MAX_SOURCE_ROWS = 30;
+
+type EpisodeRow = { summary: string; tags: string[] | null };
+type InsightRow = { content: string };
+
+/**
+ * Ringkas minggu satu user dari episodic + long-term memories.
+ * false kalau sudah ada atau user tidak punya aktivitas minggu itu.
+ */
+async function generateWeeklyInsight(
+  user: CronUserRow,
+  week: IsoWeek
+): Promise<boolean> {
+  const { data: existing } = await supabase
+    .from('weekly_insights')
+    .select('id')
+    .eq('user_id', user.id)
+    .eq('week', week.key)
+    .maybeSingle();
+  if (existing) return false;
+
+  // Memori yang dikarantina tidak ikut masuk prompt insight
+  const range = (table: string, columns: string) =>
+    supabase
+      .from(table)
+      .select(columns)
+      .eq('user_id', user.id)
+      .eq('quarantined', false)
+      .gte('created_at', week.start.toISOString())
+      .lt('created_at', week.end.toISOString())
+      .order('created_at', { ascending: true })
+      .limit(MAX_SOURCE_ROWS);
+
+  const [episodesRes, insightsRes, goalsRes] = await Promise.all([
+    range('episodic_memories', 'summary, tags'),
+    range('long_term_memories', 'content'),
+    supabase
+      .from('goals')
+      .select(GOAL_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('week', week.key),
+  ]);
+
+  const episodeRows = (episodesRes.data || []) as unknown as EpisodeRow[];
+  const insightRows = (insightsRes.data || []) as unknown as InsightRow[];
+
+  const episodes = episodeRows.map((e) =>
+    e.tags?.length ? `- ${e.summary} (${e.tags.join(', ')})` : `- ${e.summary}`
+  );
+  const insights = insightRows.map((i) =>
+    i.content.startsWith('- ') ? i.content : `- ${i.content}`
+  );
+
+  if (!episodes.length && !insights.length) return false;
+
+  const locale = resolveLocale(user.locale);
+  const prompts = cronPrompts(locale);
+  // Goal terstruktur minggu itu; weekly_goal lama sebagai fallback
+  const goals = (goalsRes.data || []) as unknown as Goal[];
+  const goal = goalTitles(goals) || user.weekly_goal || '';
+  const notes = [
+    episodes.length ? `${prompts.episodes}\n${episodes.join('\n')}` : '',
+    insights.length ? `${prompts.insights}\n${insights.join('\n')}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  let summary: string | null = null;
+  try {
+    summary = await callSummarizer([
+      {
+        role: 'system',
+        content: prompts.weeklyInsight(
+          formatCronGoal(goals, user.weekly_goal, locale)
+        ),
+      },
+      { role: 'user', content: notes },
+    ]);
+  } catch (err) {
+    log.error('summarizer error', { err });
+  }
+
+  // Model tidak tersedia → rangkuman deterministik, tetap tersimpan
+  if (!summary) {
+    summary = `${prompts.weeklyInsightFallback}\n${[...episodes, ...insights]
+      .slice(0, 5)
+      .join('\n')}`;
+  }
+
+  const { error } = await supabase.from('weekly_insights').upsert(
+    {
+      user_id: user.id,
+      week: week.key,
+      weekly_goal: goal || null,
+      summary,
+      source_count: episodes.length + insights.length,
+    },
+    { onConflict: 'user_id,week', ignoreDuplicates: true }
+  );
+  if (error) throw new Error(error.message);
+
+  return true;
+}
+
+export async function POST(req: Request) {
+  const denied = verifyCronSecret(req);
+  if (denied) return denied;
+
+  try {
+    // Jalan Senin pagi WIB → rangkum minggu yang baru selesai
+    const week = previousIsoWeek(new Date());
+
+    const result = await runBatchedJob({
+      job: 'weekly-insight',
+      period: week.key,
+      processUser: (user) => generateWeeklyInsight(user, week),
+    });
+
+    // locked = batch lain sedang jalan → pemanggil cukup coba lagi
+    const done =
+      result.status === 'done' || result.status === 'already_done';
+
+    return NextResponse.json({ ...result, done }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
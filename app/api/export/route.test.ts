@@ -0,0 +1,113 @@
+// File: app/api/export/route.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '@/lib/hidupai/testing';
+
+vi.mock('@/lib/hidupai/supabase', async () => {
+  const { createFakeSupabase } = await import('@/lib/hidupai/testing');
+  return { supabase: createFakeSupabase() };
+});
+vi.mock('@/lib/hidupai/auth', () => ({
+  authenticateRequest: async () => ({ ok: true, userId: 'budi' }),
+}));
+
+import { supabase } from '@/lib/hidupai/supabase';
+import { GET } from './route';
+
+const db = supabase as unknown as FakeSupabase;
+
+const exportAs = (format: string) =>
+  GET(new Request(`https://hidupai.test/api/export?format=${format}`));
+
+describe('GET /api/export', () => {
+  beforeEach(() => {
+    db.tables.clear();
+    db.failures.clear();
+    db.rpcs.clear();
+    db.rpcs.set('claim_export_slot', (args) => {
+      db.store('data_exports', {
+        user_id: args.p_user_id,
+        format: args.p_format,
+        version: args.p_version,
+      });
+      return { data: [{ allowed: true, used: 1 }], error: null };
+    });
+
+    db.seed('users', [{ id: 'budi', email: 'budi@example.com' }]);
+    db.seed('chat_modes', [
+      { owner_id: 'budi', slug: 'budi-santai', label: 'Santai', prompt: 'x' },
+      { owner_id: null, slug: 'coach', label: 'Coach', prompt: 'global' },
+    ]);
+    db.seed('safety_flags', [
+      {
+        user_id: 'budi',
+        risk: 'high',
+        message: 'Aku capek banget',
+        reviewed_by: 'staf-1',
+      },
+    ]);
+    db.seed('memory_jobs', [
+      {
+        user_id: 'budi',
+        status: 'done',
+        payload: { lastUserMessage: 'Halo', aiMessage: 'Hai' },
+        last_error: 'timeout internal',
+      },
+    ]);
+    db.seed('usage_ledger', [
+      { user_id: 'budi', kind: 'chat', input_tokens: 10, output_tokens: 5 },
+      { user_id: 'siti', kind: 'chat', input_tokens: 99, output_tokens: 9 },
+    ]);
+  });
+
+  it('mengekspor tabel yang menyimpan teks user', async () => {
+    const res = await exportAs('json');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.chat_modes.map((m: { slug: string }) => m.slug)).toEqual([
+      'budi-santai',
+    ]);
+    expect(body.safety_flags[0].message).toBe('Aku capek banget');
+    expect(body.memory_jobs[0].payload.lastUserMessage).toBe('Halo');
+    expect(body.usage_ledger).toHaveLength(1);
+    expect(body.data_exports).toHaveLength(1);
+  });
+
+  it('tidak membocorkan detail internal', async () => {
+    const body = await (await exportAs('json')).json();
+    expect(body.safety_flags[0]).not.toHaveProperty('reviewed_by');
+    expect(body.memory_jobs[0]).not.toHaveProperty('last_error');
+  });
+
+  it('format txt memuat bagian baru', async () => {
+    const text = await (await exportAs('txt')).text();
+    expect(text).toContain('== MODE CHAT PERSONAL ==');
+    expect(text).toContain('high/-: Aku capek banget');
+    expect(text).not.toContain('global');
+  });
+
+  it('menolak dengan 429 kalau slot ekspor habis', async () => {
+    const retryAt = new Date(Date.now() + 90 * 60 * 1000).toISOString();
+    db.rpcs.set('claim_export_slot', () => ({
+      data: [{ allowed: false, used: 3, retry_at: retryAt }],
+      error: null,
+    }));
+    const res = await exportAs('json');
+    expect(res.status).toBe(429);
+    expect((await res.json()).code).toBe('EXPORT_RATE_LIMITED');
+
+    // Retry-After mengikuti ekspor tertua, bukan angka tetap
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    expect(retryAfter).toBeGreaterThan(89 * 60);
+    expect(retryAfter).toBeLessThanOrEqual(90 * 60);
+  });
+
+  it('gagal 500 kalau slot ekspor tidak bisa dicatat', async () => {
+    db.rpcs.set('claim_export_slot', () => ({
+      data: null,
+      error: { message: 'db down' },
+    }));
+    expect((await exportAs('json')).status).toBe(500);
+  });
+});
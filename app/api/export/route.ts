@@ -0,0 +1,360 @@
+// File: app/api/export/route.ts
+// HidupAI Data Export — semua data user, di-stream per batch
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import { createLogger } from '@/lib/hidupai/log';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('export');
+
+export const dynamic = 'force-dynamic';
+
+const EXPORT_VERSION = 'hidupai-export/1';
+const EXPORT_BATCH_SIZE = 500;
+const EXPORT_DAILY_LIMIT = Number(process.env.EXPORT_DAILY_LIMIT) || 3;
+
+type ExportFormat = 'json' | 'txt';
+
+interface ExportSlot {
+  allowed: boolean;
+  used: number;
+  // Saat ekspor tertua di jendela 24 jam kedaluwarsa (kalau ditolak)
+  retry_at: string | null;
+}
+
+interface ExportSection {
+  key: string;
+  title: string;
+  table: string;
+  columns: string;
+  // Kolom pemilik baris; default user_id
+  ownerColumn?: string;
+  toText: (row: Record<string, unknown>) => string;
+}
+
+const USER_COLUMNS =
+  'id, email, plan, is_premium, preferred_mode, weekly_goal, long_term_memory, last_question, last_response, last_interaction, usage_today, last_used, locale';
+
+// Semua tabel yang menyimpan teks/aktivitas user ikut diekspor. Yang
+// sengaja tidak ikut: vektor embedding (angka mentah, kontennya sudah ada
+// di METADATA EMBEDDING), safety_flags.reviewed_by (identitas reviewer
+// internal), memory_jobs.last_error & locked_until (detail worker).
+const EXPORT_SECTIONS: ExportSection[] = [
+  {
+    key: 'long_term_memories',
+    title: 'INSIGHT JANGKA PANJANG',
+    table: 'long_term_memories',
+    columns:
+      'id, content, importance, pinned, consolidation_id, quarantined, created_at',
+    toText: (r) => `[${r.created_at}] ${r.content}`,
+  },
+  {
+    key: 'episodic_memories',
+    title: 'KEJADIAN (EPISODIC)',
+    table: 'episodic_memories',
+    columns:
+      'id, summary, raw_text, tags, importance, emotion, pinned, quarantined, created_at',
+    toText: (r) =>
+      `[${r.created_at}] ${r.summary}\nTags: ${
+        Array.isArray(r.tags) ? r.tags.join(', ') : '-'
+      }\n${r.raw_text ?? ''}`,
+  },
+  {
+    key: 'memory_consolidations',
+    title: 'RIWAYAT KONSOLIDASI MEMORI',
+    table: 'memory_consolidations',
+    columns: 'id, summary, source_count, method, created_at',
+    toText: (r) => `[${r.created_at}] (${r.method})\n${r.summary}`,
+  },
+  {
+    key: 'conversations',
+    title: 'PERCAKAPAN',
+    table: 'conversations',
+    columns: 'id, title, created_at, last_message_at',
+    toText: (r) =>
+      `[${r.created_at}] ${r.title ?? '(tanpa judul)'} — ${r.id}`,
+  },
+  {
+    key: 'conversation_messages',
+    title: 'PESAN PERCAKAPAN',
+    table: 'conversation_messages',
+    columns: 'id, conversation_id, role, content, created_at',
+    toText: (r) =>
+      `[${r.created_at}] (${r.conversation_id}) ${r.role}: ${r.content}`,
+  },
+  {
+    key: 'goals',
+    title: 'TUJUAN MINGGUAN',
+    table: 'goals',
+    columns:
+      'id, week, title, status, target_date, milestones, progress_note, created_at',
+    toText: (r) =>
+      `[${r.week}] ${r.title} (${r.status})${
+        r.progress_note ? `\nProgres: ${r.progress_note}` : ''
+      }`,
+  },
+  {
+    key: 'goal_progress',
+    title: 'LOG PROGRES TUJUAN',
+    table: 'goal_progress',
+    columns: 'id, goal_id, note, source, created_at',
+    toText: (r) => `[${r.created_at}] (${r.goal_id}) ${r.note}`,
+  },
+  {
+    key: 'weekly_insights',
+    title: 'REFLEKSI MINGGUAN',
+    table: 'weekly_insights',
+    columns: 'id, week, weekly_goal, summary, created_at',
+    toText: (r) => `[${r.week}] ${r.summary}`,
+  },
+  {
+    key: 'checkins',
+    title: 'CHECK-IN MINGGUAN',
+    table: 'checkins',
+    columns: 'id, week, message, delivered_at, created_at',
+    toText: (r) => `[${r.week}] ${r.message}`,
+  },
+  {
+    key: 'memory_embeddings',
+    title: 'METADATA EMBEDDING',
+    table: 'memory_embeddings',
+    columns:
+      'id, source_type, source_id, content, provider, model, dims, quarantined, created_at',
+    toText: (r) =>
+      `[${r.created_at}] ${r.source_type}${
+        r.source_id ? ` (${r.source_id})` : ''
+      }: ${r.content}`,
+  },
+  {
+    key: 'chat_modes',
+    title: 'MODE CHAT PERSONAL',
+    table: 'chat_modes',
+    columns:
+      'id, slug, label, prompt, temperature, model, i18n, is_active, created_at',
+    ownerColumn: 'owner_id',
+    toText: (r) => `[${r.created_at}] ${r.slug} — ${r.label}\n${r.prompt}`,
+  },
+  {
+    key: 'safety_flags',
+    title: 'CATATAN KESELAMATAN',
+    table: 'safety_flags',
+    columns:
+      'id, risk, category, source, matches, message, reviewed_at, created_at',
+    toText: (r) =>
+      `[${r.created_at}] ${r.risk}/${r.category ?? '-'}: ${r.message}`,
+  },
+  {
+    key: 'memory_jobs',
+    title: 'ANTREAN PEMBARUAN MEMORI',
+    table: 'memory_jobs',
+    columns: 'id, status, payload, result, attempts, created_at, finished_at',
+    toText: (r) =>
+      `[${r.created_at}] (${r.status}) ${JSON.stringify(r.payload)}`,
+  },
+  {
+    key: 'usage_ledger',
+    title: 'PEMAKAIAN MODEL',
+    table: 'usage_ledger',
+    columns:
+      'id, request_id, kind, provider, model, input_tokens, output_tokens, estimated, cost_usd, created_at',
+    toText: (r) =>
+      `[${r.created_at}] ${r.kind} ${r.provider}/${r.model}: ${r.input_tokens} in, ${r.output_tokens} out`,
+  },
+  {
+    key: 'data_exports',
+    title: 'RIWAYAT EKSPOR',
+    table: 'data_exports',
+    columns: 'id, format, version, created_at',
+    toText: (r) => `[${r.created_at}] ${r.format} (${r.version})`,
+  },
+];
+
+/**
+ * Detik sampai slot ekspor berikutnya terbuka; minimal 1 detik.
+ */
+function retryAfterSeconds(retryAt: string | null): number {
+  if (!retryAt) return 60 * 60;
+  const ms = new Date(retryAt).getTime() - Date.now();
+  return Number.isFinite(ms) ? Math.max(1, Math.ceil(ms / 1000)) : 60 * 60;
+}
+
+/**
+ * Baca tabel per halaman supaya histori besar tidak dimuat sekaligus.
+ */
+async function* pageRows(
+  { table, columns, ownerColumn = 'user_id' }: ExportSection,
+  userId: string
+): AsyncGenerator<Record<string, unknown>> {
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(columns)
+      .eq(ownerColumn, userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_BATCH_SIZE - 1);
+
+    if (error) throw new Error(`export ${table} gagal: ${error.message}`);
+
+    const rows = (data || []) as unknown as Record<string, unknown>[];
+    for (const row of rows) yield row;
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+  }
+}
+
+async function* exportJson(
+  user: Record<string, unknown>,
+  userId: string
+): AsyncGenerator<string> {
+  yield `{"version":${JSON.stringify(EXPORT_VERSION)}`;
+  yield `,"exported_at":${JSON.stringify(new Date().toISOString())}`;
+  yield `,"user":${JSON.stringify(user)}`;
+
+  for (const section of EXPORT_SECTIONS) {
+    yield `,${JSON.stringify(section.key)}:[`;
+    let first = true;
+    for await (const row of pageRows(section, userId)) {
+      yield `${first ? '' : ','}${JSON.stringify(row)}`;
+      first = false;
+    }
+    yield ']';
+  }
+
+  yield '}\n';
+}
+
+async function* exportText(
+  user: Record<string, unknown>,
+  userId: string
+): AsyncGenerator<string> {
+  yield `EKSPOR DATA HIDUPAI (${EXPORT_VERSION})\n`;
+  yield `Diekspor: ${new Date().toISOString()}\n\n`;
+
+  yield '== PROFIL ==\n';
+  for (const [key, value] of Object.entries(user)) {
+    yield `${key}: ${value ?? '-'}\n`;
+  }
+
+  for (const section of EXPORT_SECTIONS) {
+    yield `\n== ${section.title} ==\n`;
+    let count = 0;
+    for await (const row of pageRows(section, userId)) {
+      yield `${section.toText(row)}\n\n`;
+      count++;
+    }
+    if (!count) yield '(kosong)\n';
+  }
+}
+
+/* =========================================================
+ *  GET /api/export?format=json|txt
+ * =======================================================*/
+
+export async function GET(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { userId } = auth;
+    const url = new URL(req.url);
+    const format = (url.searchParams.get('format') || 'json') as ExportFormat;
+
+    if (format !== 'json' && format !== 'txt') {
+      return NextResponse.json(
+        { message: 'format harus json atau txt' },
+        { status: 400 }
+      );
+    }
+
+    const { data: user, error } = await supabase
+      .from('users')
+      .select(USER_COLUMNS)
+      .eq('id', userId)
+      .single();
+
+    if (error || !user) {
+      return NextResponse.json(
+        { message: 'Akun tidak ditemukan' },
+        { status: 404 }
+      );
+    }
+
+    // Rate limit: maksimal N ekspor per 24 jam. Cek + catat ekspor
+    // dalam satu RPC, jadi request paralel tidak bisa menembus limit
+    const { data: slot, error: slotError } = await supabase
+      .rpc('claim_export_slot', {
+        p_user_id: userId,
+        p_format: format,
+        p_version: EXPORT_VERSION,
+        p_limit: EXPORT_DAILY_LIMIT,
+      })
+      .single();
+
+    if (slotError || !slot) {
+      log.error('rate limit error', { err: slotError });
+      return NextResponse.json(
+        { message: 'Gagal memproses ekspor 😥' },
+        { status: 500 }
+      );
+    }
+
+    const { allowed, retry_at } = slot as ExportSlot;
+    if (!allowed) {
+      return NextResponse.json(
+        {
+          message: `Ekspor dibatasi ${EXPORT_DAILY_LIMIT}x per 24 jam. Coba lagi nanti ya 🙏`,
+          code: 'EXPORT_RATE_LIMITED',
+        },
+        {
+          status: 429,
+          headers: { 'Retry-After': String(retryAfterSeconds(retry_at)) },
+        }
+      );
+    }
+
+    const userRow = user as unknown as Record<string, unknown>;
+    const chunks =
+      format === 'json'
+        ? exportJson(userRow, userId)
+        : exportText(userRow, userId);
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) controller.close();
+          else controller.enqueue(encoder.encode(value));
+        } catch (err) {
+          log.error('stream error', { err });
+          controller.error(err);
+        }
+      },
+    });
+
+    const date = new Date().toISOString().split('T')[0];
+    const filename = `hidupai-export-${date}.${format}`;
+
+    return new NextResponse(stream, {
+      status: 200,
+      headers: {
+        'Content-Type':
+          format === 'json'
+            ? 'application/json; charset=utf-8'
+            : 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
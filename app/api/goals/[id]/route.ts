@@ -0,0 +1,187 @@
+// File: app/api/goals/[id]/route.ts
+// HidupAI Goals API — ubah status, milestone, progres & hapus goal
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import {
+  GOAL_COLUMNS,
+  GOAL_TEXT_FLAGGED,
+  Goal,
+  GoalInput,
+  normalizeMilestones,
+  validateGoalInput,
+} from '@/lib/hidupai/goals';
+import { createLogger } from '@/lib/hidupai/log';
+import { screenMemoryText } from '@/lib/hidupai/screening';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('goals api');
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+type PatchBody = GoalInput & {
+  // Catatan progres manual, ikut masuk goal_progress
+  progressNote?: string;
+};
+
+const MAX_PROGRESS_NOTE_LENGTH = 300;
+
+function notFound() {
+  return NextResponse.json(
+    { message: 'Goal tidak ditemukan' },
+    { status: 404 }
+  );
+}
+
+/* =========================================================
+ *  PATCH — title, status, targetDate, milestones, progressNote
+ * =======================================================*/
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const body = (await req.json().catch(() => null)) as PatchBody | null;
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { message: 'Goal tidak valid', errors: ['body harus object'] },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateGoalInput(body, true);
+
+    const progressNote =
+      typeof body.progressNote === 'string' ? body.progressNote.trim() : '';
+    if (
+      body.progressNote !== undefined &&
+      (!progressNote || progressNote.length > MAX_PROGRESS_NOTE_LENGTH)
+    ) {
+      errors.push(
+        `progressNote wajib diisi (maks ${MAX_PROGRESS_NOTE_LENGTH} karakter)`
+      );
+    } else if (progressNote && screenMemoryText(progressNote).flagged) {
+      errors.push(GOAL_TEXT_FLAGGED);
+    }
+    if (errors.length) {
+      return NextResponse.json(
+        { message: 'Goal tidak valid', errors },
+        { status: 400 }
+      );
+    }
+
+    const { data: current } = await supabase
+      .from('goals')
+      .select(GOAL_COLUMNS)
+      .eq('id', params.id)
+      .eq('user_id', auth.userId)
+      .maybeSingle();
+    if (!current) return notFound();
+
+    const goal = current as unknown as Goal;
+    const now = new Date().toISOString();
+    const update: Record<string, unknown> = {};
+
+    if (body.title !== undefined) update.title = body.title.trim();
+    if (body.status !== undefined) update.status = body.status;
+    if (body.targetDate !== undefined) update.target_date = body.targetDate;
+    if (body.milestones !== undefined) {
+      update.milestones = normalizeMilestones(
+        body.milestones,
+        goal.milestones
+      );
+    }
+    if (progressNote) {
+      update.progress_note = progressNote;
+      update.last_progress_at = now;
+    }
+
+    if (!Object.keys(update).length) {
+      return NextResponse.json(
+        {
+          message:
+            'Tidak ada perubahan (title / status / targetDate / milestones / progressNote)',
+        },
+        { status: 400 }
+      );
+    }
+    update.updated_at = now;
+
+    const { data: row, error } = await supabase
+      .from('goals')
+      .update(update)
+      .eq('id', goal.id)
+      .eq('user_id', auth.userId)
+      .select(GOAL_COLUMNS)
+      .single();
+
+    if (error) {
+      log.error('update error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menyimpan goal 😥' },
+        { status: 500 }
+      );
+    }
+
+    if (progressNote) {
+      await supabase.from('goal_progress').insert({
+        goal_id: goal.id,
+        user_id: auth.userId,
+        note: progressNote,
+        source: 'manual',
+      });
+    }
+
+    return NextResponse.json({ goal: row }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  DELETE — hapus goal beserta log progresnya (cascade)
+ * =======================================================*/
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { data: deleted, error } = await supabase
+      .from('goals')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', auth.userId)
+      .select('id');
+
+    if (error) {
+      log.error('delete error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menghapus goal 😥' },
+        { status: 500 }
+      );
+    }
+    if (!deleted || deleted.length === 0) return notFound();
+
+    return NextResponse.json({ id: params.id }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,148 @@
+// File: app/api/goals/route.ts
+// HidupAI Goals API — daftar & buat tujuan mingguan
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import {
+  GOAL_COLUMNS,
+  GoalInput,
+  MAX_GOALS_PER_WEEK,
+  loadCurrentGoals,
+  normalizeMilestones,
+  validateGoalInput,
+} from '@/lib/hidupai/goals';
+import { createLogger } from '@/lib/hidupai/log';
+import { supabase } from '@/lib/hidupai/supabase';
+import { isoWeek } from '@/lib/hidupai/week';
+
+const log = createLogger('goals api');
+
+export const dynamic = 'force-dynamic';
+
+const WEEK_PATTERN = /^\d{4}-W\d{2}$/;
+
+/* =========================================================
+ *  GET /api/goals?week=2026-W42 — default: goal yang berlaku sekarang
+ * =======================================================*/
+
+export async function GET(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const week = new URL(req.url).searchParams.get('week');
+
+    if (!week) {
+      const goals = await loadCurrentGoals(auth.userId);
+      return NextResponse.json(
+        { week: isoWeek(new Date()).key, goals },
+        { status: 200 }
+      );
+    }
+
+    if (!WEEK_PATTERN.test(week)) {
+      return NextResponse.json(
+        { message: 'week harus format YYYY-Www, contoh 2026-W42' },
+        { status: 400 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('goals')
+      .select(GOAL_COLUMNS)
+      .eq('user_id', auth.userId)
+      .eq('week', week)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      log.error('list error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal mengambil goal 😥' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ week, goals: data || [] }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  POST /api/goals — goal baru di minggu berjalan
+ * =======================================================*/
+
+export async function POST(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    // JSON rusak → null, ditolak validateGoalInput sebagai 400
+    const body = (await req.json().catch(() => null)) as GoalInput;
+    const errors = validateGoalInput(body);
+    if (errors.length) {
+      return NextResponse.json(
+        { message: 'Goal tidak valid', errors },
+        { status: 400 }
+      );
+    }
+
+    const week = isoWeek(new Date()).key;
+
+    const { count } = await supabase
+      .from('goals')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', auth.userId)
+      .eq('week', week)
+      .neq('status', 'dropped');
+
+    if ((count ?? 0) >= MAX_GOALS_PER_WEEK) {
+      return NextResponse.json(
+        {
+          message: `Maksimal ${MAX_GOALS_PER_WEEK} goal per minggu`,
+          code: 'GOAL_LIMIT_REACHED',
+        },
+        { status: 409 }
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('goals')
+      .insert({
+        user_id: auth.userId,
+        week,
+        title: body.title!.trim(),
+        status: body.status || 'active',
+        target_date: body.targetDate ?? null,
+        milestones: normalizeMilestones(body.milestones || []),
+      })
+      .select(GOAL_COLUMNS)
+      .single();
+
+    if (error) {
+      log.error('insert error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menyimpan goal 😥' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ goal: data }, { status: 201 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
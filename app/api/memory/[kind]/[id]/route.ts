@@ -0,0 +1,317 @@
+// File: app/api/memory/[kind]/[id]/route.ts
+// HidupAI Memory API — edit, pin, review karantina & forget satu entri
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import { embeddingColumns, getEmbedding } from '@/lib/hidupai/embeddings';
+import { createLogger } from '@/lib/hidupai/log';
+import {
+  MEMORY_KINDS,
+  MemoryKind,
+  isMemoryKind,
+  rebuildLongTermMemory,
+} from '@/lib/hidupai/memory';
+import { quarantineColumns, screenMemoryText } from '@/lib/hidupai/screening';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('memory api');
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { kind: string; id: string } };
+
+type PatchBody = {
+  content?: string;
+  pinned?: boolean;
+  // Hasil review karantina: false = memori aman, boleh dipakai lagi
+  quarantined?: boolean;
+};
+
+type QuarantineState = {
+  quarantined: boolean;
+  quarantine_reason: string | null;
+};
+
+const MAX_CONTENT_LENGTH = 1000;
+const KIND_LIST = Object.keys(MEMORY_KINDS).join(', ');
+
+function invalidKind() {
+  return NextResponse.json(
+    {
+      message: `kind harus salah satu dari: ${KIND_LIST}`,
+    },
+    { status: 400 }
+  );
+}
+
+function notFound() {
+  return NextResponse.json(
+    { message: 'Memori tidak ditemukan' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Hapus embedding lama milik entri ini lalu buat ulang dari konten baru.
+ */
+async function regenerateEmbedding(
+  kind: MemoryKind,
+  userId: string,
+  id: string,
+  content: string,
+  quarantine: QuarantineState
+) {
+  const { sourceType } = MEMORY_KINDS[kind];
+  if (!sourceType) return;
+
+  await supabase
+    .from('memory_embeddings')
+    .delete()
+    .eq('user_id', userId)
+    .eq('source_id', id);
+
+  const embedding = await getEmbedding(content);
+  if (!embedding) return;
+
+  await supabase.from('memory_embeddings').insert({
+    user_id: userId,
+    source_type: sourceType,
+    source_id: id,
+    content,
+    ...embeddingColumns(embedding),
+    ...quarantine,
+  });
+}
+
+// raw_text episode: "<nama>: <pesan user>\nHidupAI: <jawaban>"
+function userMessageFromRawText(rawText?: string | null): string | null {
+  if (!rawText) return null;
+  const start = rawText.indexOf(': ');
+  const end = rawText.indexOf('\nHidupAI: ');
+  if (start === -1 || end <= start) return null;
+  return rawText.slice(start + 2, end) || null;
+}
+
+/* =========================================================
+ *  PATCH — edit konten, pin dan/atau review karantina
+ * =======================================================*/
+
+export async function PATCH(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { kind, id } = params;
+    if (!isMemoryKind(kind)) return invalidKind();
+
+    const body = (await req.json().catch(() => null)) as PatchBody | null;
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        { message: 'Body harus JSON object' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      kind === 'embeddings' &&
+      (body.content !== undefined || body.pinned !== undefined)
+    ) {
+      return NextResponse.json(
+        { message: 'Embedding tidak bisa diedit, hapus saja entrinya' },
+        { status: 400 }
+      );
+    }
+
+    const update: Record<string, unknown> = {};
+    const { table, contentColumn, columns } = MEMORY_KINDS[kind];
+
+    if (body.content !== undefined) {
+      const content =
+        typeof body.content === 'string' ? body.content.trim() : '';
+      if (!content || content.length > MAX_CONTENT_LENGTH) {
+        return NextResponse.json(
+          {
+            message: `content wajib diisi (maks ${MAX_CONTENT_LENGTH} char)`,
+          },
+          { status: 400 }
+        );
+      }
+      update[contentColumn] = content;
+      // Konten hasil edit di-screen ulang seperti memori baru; review
+      // lama tidak berlaku untuk konten yang berubah
+      Object.assign(update, quarantineColumns(screenMemoryText(content)));
+      update.reviewed_at = null;
+    }
+
+    if (body.pinned !== undefined) {
+      if (typeof body.pinned !== 'boolean') {
+        return NextResponse.json(
+          { message: 'pinned harus boolean' },
+          { status: 400 }
+        );
+      }
+      update.pinned = body.pinned;
+    }
+
+    // Review eksplisit menimpa hasil screening, tapi hanya untuk konten
+    // yang sudah tersimpan (dan dilihat reviewer), bukan konten baru
+    if (body.quarantined !== undefined) {
+      if (body.content !== undefined) {
+        return NextResponse.json(
+          {
+            message:
+              'Simpan content dulu, lalu review quarantined di request terpisah',
+          },
+          { status: 400 }
+        );
+      }
+      if (typeof body.quarantined !== 'boolean') {
+        return NextResponse.json(
+          { message: 'quarantined harus boolean' },
+          { status: 400 }
+        );
+      }
+      update.quarantined = body.quarantined;
+      if (!body.quarantined) update.quarantine_reason = null;
+      update.reviewed_at = new Date().toISOString();
+    }
+
+    if (!Object.keys(update).length) {
+      return NextResponse.json(
+        { message: 'Tidak ada perubahan (content / pinned / quarantined)' },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from(table)
+      .update(update)
+      .eq('id', id)
+      .eq('user_id', auth.userId)
+      .select(columns)
+      .maybeSingle();
+
+    if (error) {
+      log.error('update error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menyimpan memori 😥' },
+        { status: 500 }
+      );
+    }
+    if (!row) return notFound();
+
+    const { quarantined, quarantine_reason } =
+      row as unknown as QuarantineState;
+    const contentChanged = typeof update[contentColumn] === 'string';
+    const quarantineChanged = 'quarantined' in update;
+
+    if (contentChanged) {
+      await regenerateEmbedding(
+        kind,
+        auth.userId,
+        id,
+        update[contentColumn] as string,
+        { quarantined, quarantine_reason }
+      );
+    } else if (quarantineChanged && kind !== 'embeddings') {
+      // Embedding milik entri ini ikut status review
+      await supabase
+        .from('memory_embeddings')
+        .update({
+          quarantined,
+          quarantine_reason,
+          reviewed_at: update.reviewed_at,
+        })
+        .eq('user_id', auth.userId)
+        .eq('source_id', id);
+    }
+
+    if (kind === 'insights' && (contentChanged || quarantineChanged)) {
+      await rebuildLongTermMemory(auth.userId);
+    }
+
+    return NextResponse.json({ kind, item: row }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  DELETE — lupakan satu entri (+ embedding terkait)
+ * =======================================================*/
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { kind, id } = params;
+    if (!isMemoryKind(kind)) return invalidKind();
+
+    const { table } = MEMORY_KINDS[kind];
+
+    const { data: deleted, error } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', auth.userId)
+      .select(kind === 'episodes' ? 'id, raw_text' : 'id');
+
+    if (error) {
+      log.error('delete error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal menghapus memori 😥' },
+        { status: 500 }
+      );
+    }
+    if (!deleted || deleted.length === 0) return notFound();
+
+    // Cascade ke embedding yang menunjuk ke entri ini
+    if (kind !== 'embeddings') {
+      await supabase
+        .from('memory_embeddings')
+        .delete()
+        .eq('user_id', auth.userId)
+        .eq('source_id', id);
+    }
+
+    // Episode lama: embedding chat per giliran belum punya source_id,
+    // jadi dicocokkan lewat pesan user yang tersimpan di raw_text
+    if (kind === 'episodes') {
+      const { raw_text } = deleted[0] as unknown as { raw_text?: string };
+      const userMessage = userMessageFromRawText(raw_text);
+      if (userMessage) {
+        await supabase
+          .from('memory_embeddings')
+          .delete()
+          .eq('user_id', auth.userId)
+          .eq('source_type', 'chat')
+          .is('source_id', null)
+          .eq('content', userMessage);
+      }
+    }
+
+    if (kind === 'insights') await rebuildLongTermMemory(auth.userId);
+
+    return NextResponse.json(
+      { message: 'Memori sudah dilupakan 🤍', kind, id },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+// File: app/api/memory/route.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '@/lib/hidupai/testing';
+
+vi.mock('@/lib/hidupai/supabase', async () => {
+  const { createFakeSupabase } = await import('@/lib/hidupai/testing');
+  return { supabase: createFakeSupabase() };
+});
+vi.mock('@/lib/hidupai/auth', () => ({
+  authenticateRequest: async () => ({ ok: true, userId: 'budi' }),
+}));
+
+import {
+  loadLastExchange,
+  loadThreadHistory,
+} from '@/lib/hidupai/conversations';
+import { supabase } from '@/lib/hidupai/supabase';
+import { DELETE } from './route';
+
+const db = supabase as unknown as FakeSupabase;
+
+const forgetAll = () =>
+  DELETE(new Request('https://hidupai.test/api/memory', { method: 'DELETE' }));
+
+describe('DELETE /api/memory', () => {
+  beforeEach(() => {
+    db.tables.clear();
+    db.failures.clear();
+    db.seed('users', [
+      { id: 'budi', long_term_memory: '- Suka kopi', last_question: 'Halo' },
+    ]);
+    db.seed('conversations', [
+      { id: 't-budi', user_id: 'budi', last_message_at: '2026-10-18' },
+      { id: 't-siti', user_id: 'siti', last_message_at: '2026-10-18' },
+    ]);
+    const message = (thread: string, role: string, content: string) => ({
+      conversation_id: `t-${thread}`,
+      user_id: thread,
+      role,
+      content,
+    });
+    db.seed('conversation_messages', [
+      message('budi', 'user', 'Aku takut gagal'),
+      message('budi', 'assistant', 'Pelan-pelan ya'),
+      message('siti', 'user', 'Halo'),
+    ]);
+    db.seed('long_term_memories', [{ user_id: 'budi', content: 'Suka kopi' }]);
+  });
+
+  it('histori thread tidak kembali ke prompt setelah dilupakan', async () => {
+    expect(await loadThreadHistory('t-budi')).toHaveLength(2);
+
+    const res = await forgetAll();
+    expect(res.status).toBe(200);
+
+    expect(await loadThreadHistory('t-budi')).toEqual([]);
+    expect(await loadLastExchange('budi', null)).toBeNull();
+    expect(db.table('long_term_memories')).toEqual([]);
+    expect(db.table('users')[0]).toMatchObject({
+      long_term_memory: null,
+      last_question: null,
+    });
+  });
+
+  it('data user lain tidak ikut terhapus', async () => {
+    await forgetAll();
+    expect(await loadThreadHistory('t-siti')).toEqual([
+      { role: 'user', content: 'Halo' },
+    ]);
+  });
+
+  it('berhenti dengan 500 kalau salah satu tabel gagal dihapus', async () => {
+    db.failures.set('delete:conversations', 'timeout');
+    const res = await forgetAll();
+    expect(res.status).toBe(500);
+  });
+});
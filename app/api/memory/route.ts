@@ -0,0 +1,156 @@
+// File: app/api/memory/route.ts
+// HidupAI Memory API — list & forget everything
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import { createLogger } from '@/lib/hidupai/log';
+import { MEMORY_KINDS, isMemoryKind } from '@/lib/hidupai/memory';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('memory api');
+
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 20;
+const KIND_LIST = Object.keys(MEMORY_KINDS).join(', ');
+const MAX_PAGE_SIZE = 100;
+
+/* =========================================================
+ *  GET /api/memory?kind=insights|episodes|embeddings
+ *      &quarantined=true|false (opsional, untuk review karantina)
+ * =======================================================*/
+
+export async function GET(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const url = new URL(req.url);
+    const kind = url.searchParams.get('kind') || 'insights';
+    if (!isMemoryKind(kind)) {
+      return NextResponse.json(
+        {
+          message: `kind harus salah satu dari: ${KIND_LIST}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(Number(url.searchParams.get('limit')) || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    const offset = Math.max(Number(url.searchParams.get('offset')) || 0, 0);
+
+    const quarantinedParam = url.searchParams.get('quarantined');
+    if (quarantinedParam && !['true', 'false'].includes(quarantinedParam)) {
+      return NextResponse.json(
+        { message: 'quarantined harus true atau false' },
+        { status: 400 }
+      );
+    }
+
+    const { table, columns } = MEMORY_KINDS[kind];
+
+    let query = supabase
+      .from(table)
+      .select(columns, { count: 'exact' })
+      .eq('user_id', auth.userId);
+    if (quarantinedParam) {
+      query = query.eq('quarantined', quarantinedParam === 'true');
+    }
+
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      log.error('list error', { err: error });
+      return NextResponse.json(
+        { message: 'Gagal mengambil memori 😥' },
+        { status: 500 }
+      );
+    }
+
+    const items = data || [];
+    const total = count ?? items.length;
+    const nextOffset = offset + items.length < total ? offset + limit : null;
+
+    return NextResponse.json(
+      { kind, items, total, limit, offset, nextOffset },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  DELETE /api/memory — lupakan semuanya
+ * =======================================================*/
+
+export async function DELETE(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { userId } = auth;
+
+    // Job antrean dulu (supaya tidak menulis memori baru), lalu
+    // embedding (menunjuk ke source_id), lalu sumbernya. Histori thread
+    // ikut dihapus: loadThreadHistory & loadLastExchange memasukkannya
+    // lagi ke prompt di giliran berikutnya.
+    for (const table of [
+      'memory_jobs',
+      'memory_embeddings',
+      'episodic_memories',
+      'long_term_memories',
+      'memory_consolidations',
+      'conversation_messages',
+      'conversations',
+    ]) {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('user_id', userId);
+
+      if (error) {
+        log.error('forget error', { table, err: error });
+        return NextResponse.json(
+          { message: 'Gagal menghapus memori 😥' },
+          { status: 500 }
+        );
+      }
+    }
+
+    await supabase
+      .from('users')
+      .update({
+        long_term_memory: null,
+        last_question: null,
+        last_response: null,
+      })
+      .eq('id', userId);
+
+    return NextResponse.json(
+      { message: 'Semua memori sudah dilupakan 🤍' },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
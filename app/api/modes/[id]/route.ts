@@ -0,0 +1,56 @@
+// File: app/api/modes/[id]/route.ts
+// HidupAI Modes API — hapus mode personal
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import { resolveLocale, t } from '@/lib/hidupai/i18n';
+import { createLogger } from '@/lib/hidupai/log';
+import { invalidateModeCache } from '@/lib/hidupai/modes';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('modes api');
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: { id: string } };
+
+export async function DELETE(req: Request, { params }: RouteContext) {
+  const locale = resolveLocale(req.headers.get('Accept-Language'));
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    // Hanya mode milik user sendiri yang bisa dihapus
+    const { data: deleted, error } = await supabase
+      .from('chat_modes')
+      .delete()
+      .eq('slug', params.id)
+      .eq('owner_id', auth.userId)
+      .select('id');
+
+    if (error) {
+      log.error('delete error', { err: error });
+      return NextResponse.json(
+        { message: t(locale, 'mode.delete_failed') },
+        { status: 500 }
+      );
+    }
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { message: t(locale, 'mode.not_found') },
+        { status: 404 }
+      );
+    }
+
+    invalidateModeCache(auth.userId);
+
+    return NextResponse.json({ id: params.id }, { status: 200 });
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      { message: t(locale, 'error.internal') },
+      { status: 500 }
+    );
+  }
+}
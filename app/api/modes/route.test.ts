@@ -0,0 +1,48 @@
+// File: app/api/modes/route.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '@/lib/hidupai/testing';
+
+vi.mock('@/lib/hidupai/supabase', async () => {
+  const { createFakeSupabase } = await import('@/lib/hidupai/testing');
+  return { supabase: createFakeSupabase() };
+});
+vi.mock('@/lib/hidupai/auth', () => ({
+  authenticateRequest: async () => ({ ok: true, userId: 'budi' }),
+}));
+
+import { t } from '@/lib/hidupai/i18n';
+import { supabase } from '@/lib/hidupai/supabase';
+import { POST } from './route';
+
+const db = supabase as unknown as FakeSupabase;
+
+const createMode = (body: string) =>
+  POST(
+    new Request('https://hidupai.test/api/modes', {
+      method: 'POST',
+      body,
+    })
+  );
+
+describe('POST /api/modes', () => {
+  beforeEach(() => {
+    db.tables.clear();
+    db.seed('users', [{ id: 'budi', plan: 'premium', locale: 'en' }]);
+  });
+
+  it('menolak JSON rusak dengan 400, bukan 500', async () => {
+    const res = await createMode('{"id": "fokus",');
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      message: t('en', 'error.invalid_json'),
+      code: 'INVALID_JSON',
+    });
+  });
+
+  it('pesan error mengikuti locale user', async () => {
+    const res = await createMode(JSON.stringify({ id: 'x' }));
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toBe('Invalid mode definition');
+  });
+});
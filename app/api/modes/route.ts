@@ -0,0 +1,178 @@
+// File: app/api/modes/route.ts
+// HidupAI Modes API — daftar mode & mode personal (premium)
+
+import { NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/hidupai/auth';
+import { createLogger } from '@/lib/hidupai/log';
+import {
+  ModeDefinition,
+  getAvailableModes,
+  invalidateModeCache,
+  isBuiltinMode,
+  modeLabel,
+  validateModeDefinition,
+} from '@/lib/hidupai/modes';
+import { resolveLocale, t } from '@/lib/hidupai/i18n';
+import { supabase } from '@/lib/hidupai/supabase';
+
+const log = createLogger('modes api');
+
+export const dynamic = 'force-dynamic';
+
+const MAX_PERSONAL_MODES = 20;
+
+/* =========================================================
+ *  GET /api/modes — semua mode yang bisa dipakai user
+ * =======================================================*/
+
+export async function GET(req: Request) {
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const modes = await getAvailableModes(auth.userId);
+    const locale = resolveLocale(
+      new URL(req.url).searchParams.get('locale'),
+      req.headers.get('Accept-Language')
+    );
+
+    return NextResponse.json(
+      {
+        modes: modes.map((m) => ({
+          id: m.id,
+          label: modeLabel(m, locale),
+          personal: Boolean(m.ownerId),
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      {
+        message:
+          'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/* =========================================================
+ *  POST /api/modes — buat mode personal (khusus premium)
+ * =======================================================*/
+
+export async function POST(req: Request) {
+  const acceptLanguage = req.headers.get('Accept-Language');
+  let locale = resolveLocale(acceptLanguage);
+
+  try {
+    const auth = await authenticateRequest(req);
+    if (!auth.ok) return auth.response;
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('is_premium, plan, locale')
+      .eq('id', auth.userId)
+      .single();
+    locale = resolveLocale(user?.locale, acceptLanguage);
+
+    const isPremium = Boolean(
+      user?.is_premium || (user?.plan && user.plan !== 'free')
+    );
+    if (!isPremium) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'mode.premium_required'),
+          code: 'PREMIUM_REQUIRED',
+        },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json().catch(() => undefined);
+    if (body === undefined) {
+      return NextResponse.json(
+        { message: t(locale, 'error.invalid_json'), code: 'INVALID_JSON' },
+        { status: 400 }
+      );
+    }
+
+    const errors = validateModeDefinition(body, { personal: true });
+    if (errors.length) {
+      return NextResponse.json(
+        { message: t(locale, 'mode.invalid'), code: 'INVALID_MODE', errors },
+        { status: 400 }
+      );
+    }
+
+    const mode = body as ModeDefinition;
+
+    // Mode personal tidak boleh menimpa mode bawaan/global
+    const existing = await getAvailableModes(null);
+    if (isBuiltinMode(mode.id) || existing.some((m) => m.id === mode.id)) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'mode.id_taken', { mode: mode.id }),
+          code: 'MODE_ID_TAKEN',
+        },
+        { status: 409 }
+      );
+    }
+
+    const { count } = await supabase
+      .from('chat_modes')
+      .select('id', { count: 'exact', head: true })
+      .eq('owner_id', auth.userId);
+
+    if ((count ?? 0) >= MAX_PERSONAL_MODES) {
+      return NextResponse.json(
+        {
+          message: t(locale, 'mode.limit_reached', {
+            limit: MAX_PERSONAL_MODES,
+          }),
+          code: 'MODE_LIMIT_REACHED',
+        },
+        { status: 409 }
+      );
+    }
+
+    const { error } = await supabase.from('chat_modes').insert({
+      slug: mode.id,
+      owner_id: auth.userId,
+      label: mode.label.trim(),
+      prompt: mode.prompt.trim(),
+      temperature: mode.temperature ?? null,
+      model: mode.model ?? null,
+      i18n: mode.i18n ?? null,
+    });
+
+    if (error) {
+      // 23505 = unique violation (slug personal sudah ada)
+      const status = error.code === '23505' ? 409 : 500;
+      log.error('insert error', { err: error });
+      return NextResponse.json(
+        {
+          message:
+            status === 409
+              ? t(locale, 'mode.exists', { mode: mode.id })
+              : t(locale, 'mode.save_failed'),
+        },
+        { status }
+      );
+    }
+
+    invalidateModeCache(auth.userId);
+
+    return NextResponse.json(
+      { mode: { id: mode.id, label: mode.label, personal: true } },
+      { status: 201 }
+    );
+  } catch (err) {
+    log.error('fatal error', { err });
+    return NextResponse.json(
+      { message: t(locale, 'error.internal') },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+// File: lib/hidupai/auth.test.ts
+
+import { createHmac } from 'node:crypto';
+import { describe, expect, it, vi } from 'vitest';
+
+// Konfigurasi JWT dibaca saat module di-load
+const SECRET = vi.hoisted(() => {
+  process.env.SUPABASE_JWT_SECRET = 'rahasia-test';
+  process.env.SUPABASE_JWT_ISSUER = 'https://hidupai.test/auth/v1';
+  process.env.SUPABASE_JWT_AUDIENCE = 'authenticated';
+  return process.env.SUPABASE_JWT_SECRET;
+});
+
+import { authenticateRequest, verifyAccessToken } from './auth';
+import { t } from './i18n';
+
+const NOW = Math.floor(Date.now() / 1000);
+
+// Klaim token Supabase yang sah; tiap test menimpa satu field
+const CLAIMS = {
+  sub: 'user-123',
+  email: 'budi@example.com',
+  iss: 'https://hidupai.test/auth/v1',
+  aud: 'authenticated',
+  exp: NOW + 3600,
+};
+
+const b64url = (value: string | Buffer) =>
+  Buffer.from(value).toString('base64url');
+
+function sign(claims: object, alg = 'HS256', secret = SECRET): string {
+  const head = b64url(JSON.stringify({ alg, typ: 'JWT' }));
+  const body = b64url(JSON.stringify(claims));
+  const mac = createHmac('sha256', secret).update(`${head}.${body}`).digest();
+  return `${head}.${body}.${b64url(mac)}`;
+}
+
+async function verdict(token: string | undefined): Promise<string> {
+  const result = await verifyAccessToken(token);
+  return result.ok ? 'OK' : result.code;
+}
+
+describe('verifyAccessToken', () => {
+  it('menerima token HS256 yang valid', async () => {
+    const result = await verifyAccessToken(sign(CLAIMS));
+    expect(result.ok && result.claims.sub).toBe('user-123');
+  });
+
+  it('menolak token kosong & rusak', async () => {
+    expect(await verdict(undefined)).toBe('TOKEN_MISSING');
+    expect(await verdict('abc.def')).toBe('TOKEN_MALFORMED');
+    expect(await verdict('a.b.c')).toBe('TOKEN_MALFORMED');
+  });
+
+  it('menolak algoritma di luar daftar', async () => {
+    expect(await verdict(sign(CLAIMS, 'none'))).toBe('TOKEN_ALG_UNSUPPORTED');
+  });
+
+  it('menolak signature dari secret lain', async () => {
+    expect(await verdict(sign(CLAIMS, 'HS256', 'bukan-rahasia'))).toBe(
+      'TOKEN_SIGNATURE_INVALID'
+    );
+  });
+
+  it('menolak payload yang diubah setelah ditandatangani', async () => {
+    const [head, , mac] = sign(CLAIMS).split('.');
+    const forged = b64url(JSON.stringify({ ...CLAIMS, sub: 'admin' }));
+    expect(await verdict(`${head}.${forged}.${mac}`)).toBe(
+      'TOKEN_SIGNATURE_INVALID'
+    );
+  });
+
+  it('mewajibkan exp & memberi toleransi jam 30 detik', async () => {
+    expect(await verdict(sign({ ...CLAIMS, exp: undefined }))).toBe(
+      'TOKEN_EXPIRED'
+    );
+    expect(await verdict(sign({ ...CLAIMS, exp: NOW - 60 }))).toBe(
+      'TOKEN_EXPIRED'
+    );
+    expect(await verdict(sign({ ...CLAIMS, exp: NOW - 10 }))).toBe('OK');
+  });
+
+  it('menolak token yang belum berlaku (nbf)', async () => {
+    expect(await verdict(sign({ ...CLAIMS, nbf: NOW + 120 }))).toBe(
+      'TOKEN_NOT_YET_VALID'
+    );
+    expect(await verdict(sign({ ...CLAIMS, nbf: NOW + 10 }))).toBe('OK');
+  });
+
+  it('memeriksa issuer, audience & subject', async () => {
+    expect(await verdict(sign({ ...CLAIMS, iss: 'https://lain.test' }))).toBe(
+      'TOKEN_ISSUER_INVALID'
+    );
+    expect(await verdict(sign({ ...CLAIMS, aud: 'anon' }))).toBe(
+      'TOKEN_AUDIENCE_INVALID'
+    );
+    expect(
+      await verdict(sign({ ...CLAIMS, aud: ['anon', 'authenticated'] }))
+    ).toBe('OK');
+    expect(await verdict(sign({ ...CLAIMS, sub: '' }))).toBe(
+      'TOKEN_SUBJECT_MISSING'
+    );
+  });
+});
+
+describe('authenticateRequest', () => {
+  it('mengembalikan user id dari header Authorization', async () => {
+    const req = new Request('https://hidupai.test/api/memory', {
+      headers: { Authorization: `Bearer ${sign(CLAIMS)}` },
+    });
+    expect(await authenticateRequest(req)).toEqual({
+      ok: true,
+      userId: 'user-123',
+    });
+  });
+
+  it('mengembalikan 401 beserta code kalau token tidak ada', async () => {
+    const result = await authenticateRequest(
+      new Request('https://hidupai.test/api/memory')
+    );
+    if (result.ok) throw new Error('seharusnya ditolak');
+
+    expect(result.response.status).toBe(401);
+    expect((await result.response.json()).code).toBe('TOKEN_MISSING');
+  });
+
+  it('memakai bahasa dari Accept-Language untuk pesan 401', async () => {
+    const req = new Request('https://hidupai.test/api/memory', {
+      headers: { 'Accept-Language': 'en-US,en;q=0.9' },
+    });
+    const result = await authenticateRequest(req);
+    if (result.ok) throw new Error('seharusnya ditolak');
+
+    expect(await result.response.json()).toEqual({
+      code: 'TOKEN_MISSING',
+      message: t('en', 'auth.TOKEN_MISSING'),
+    });
+  });
+});
@@ -0,0 +1,243 @@
+// File: lib/hidupai/auth.ts
+
+import { NextResponse } from 'next/server';
+import { jwtDecode } from 'jwt-decode';
+import { DEFAULT_LOCALE, Locale, resolveLocale, t } from './i18n';
+import { createLogger } from './log';
+
+const log = createLogger('auth');
+
+export interface JwtPayload {
+  sub?: string;
+  email?: string;
+  exp?: number;
+  nbf?: number;
+  iss?: string;
+  aud?: string | string[];
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+/* =========================================================
+ *  AUTH — JWT VERIFICATION (HS256 / RS256 / ES256)
+ * =======================================================*/
+
+// HS256: pakai secret Supabase. RS256/ES256: pakai JWKS (di-cache lokal).
+const JWT_SECRET = process.env.SUPABASE_JWT_SECRET || '';
+const JWT_JWKS_URL =
+  process.env.SUPABASE_JWKS_URL ||
+  (process.env.SUPABASE_URL
+    ? `${process.env.SUPABASE_URL}/auth/v1/.well-known/jwks.json`
+    : '');
+const JWT_ISSUER =
+  process.env.SUPABASE_JWT_ISSUER ||
+  (process.env.SUPABASE_URL ? `${process.env.SUPABASE_URL}/auth/v1` : '');
+const JWT_AUDIENCE = process.env.SUPABASE_JWT_AUDIENCE || 'authenticated';
+const JWT_CLOCK_TOLERANCE_SEC = 30;
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+
+export type AuthErrorCode =
+  | 'TOKEN_MISSING'
+  | 'TOKEN_MALFORMED'
+  | 'TOKEN_ALG_UNSUPPORTED'
+  | 'TOKEN_KEY_NOT_FOUND'
+  | 'TOKEN_SIGNATURE_INVALID'
+  | 'TOKEN_EXPIRED'
+  | 'TOKEN_NOT_YET_VALID'
+  | 'TOKEN_ISSUER_INVALID'
+  | 'TOKEN_AUDIENCE_INVALID'
+  | 'TOKEN_SUBJECT_MISSING';
+
+export type VerifyResult =
+  | { ok: true; claims: JwtPayload & { sub: string } }
+  | { ok: false; code: AuthErrorCode };
+
+type Jwk = JsonWebKey & { kid?: string; alg?: string };
+
+let jwksCache: { keys: Jwk[]; fetchedAt: number } | null = null;
+const importedKeys = new Map<string, CryptoKey>();
+
+function base64UrlToBytes(input: string): Uint8Array<ArrayBuffer> {
+  const b64 = input
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const bin = atob(b64);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+async function loadJwks(force = false): Promise<Jwk[]> {
+  const now = Date.now();
+  const age = jwksCache ? now - jwksCache.fetchedAt : Infinity;
+  if (jwksCache && age < JWKS_CACHE_TTL_MS && !force) return jwksCache.keys;
+  if (jwksCache && force && age < JWKS_MIN_REFRESH_MS) return jwksCache.keys;
+  if (!JWT_JWKS_URL) return [];
+
+  try {
+    const res = await fetch(JWT_JWKS_URL, { cache: 'no-store' });
+    if (!res.ok) {
+      log.error('JWKS error', { status: res.status });
+      return jwksCache?.keys || [];
+    }
+    const json = await res.json();
+    const keys: Jwk[] = Array.isArray(json.keys) ? json.keys : [];
+    jwksCache = { keys, fetchedAt: now };
+    importedKeys.clear();
+    return keys;
+  } catch (err) {
+    log.error('JWKS fetch error', { err });
+    return jwksCache?.keys || [];
+  }
+}
+
+async function getVerifyKey(
+  alg: string,
+  kid: string | undefined
+): Promise<CryptoKey | null> {
+  if (alg === 'HS256') {
+    if (!JWT_SECRET) return null;
+    const cached = importedKeys.get('HS256');
+    if (cached) return cached;
+    const key = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(JWT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    importedKeys.set('HS256', key);
+    return key;
+  }
+
+  const cacheKey = `${alg}:${kid || ''}`;
+  const cached = importedKeys.get(cacheKey);
+  if (cached) return cached;
+
+  const pick = (keys: Jwk[]) =>
+    keys.find((k) => (kid ? k.kid === kid : !k.alg || k.alg === alg));
+
+  // kid tidak dikenal → kemungkinan rotasi kunci, coba refresh sekali
+  const jwk = pick(await loadJwks()) || pick(await loadJwks(true));
+  if (!jwk) return null;
+
+  const algorithm =
+    alg === 'RS256'
+      ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+      : { name: 'ECDSA', namedCurve: 'P-256' };
+
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm, false, [
+      'verify',
+    ]);
+    importedKeys.set(cacheKey, key);
+    return key;
+  } catch (err) {
+    log.error('import JWK error', { err });
+    return null;
+  }
+}
+
+export async function verifyAccessToken(
+  token: string | undefined
+): Promise<VerifyResult> {
+  if (!token) return { ok: false, code: 'TOKEN_MISSING' };
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return { ok: false, code: 'TOKEN_MALFORMED' };
+
+  let header: JwtHeader;
+  let claims: JwtPayload;
+  try {
+    header = jwtDecode<JwtHeader>(token, { header: true });
+    claims = jwtDecode<JwtPayload>(token);
+  } catch {
+    return { ok: false, code: 'TOKEN_MALFORMED' };
+  }
+
+  const alg = header.alg || '';
+  if (!['HS256', 'RS256', 'ES256'].includes(alg)) {
+    return { ok: false, code: 'TOKEN_ALG_UNSUPPORTED' };
+  }
+
+  const key = await getVerifyKey(alg, header.kid);
+  if (!key) return { ok: false, code: 'TOKEN_KEY_NOT_FOUND' };
+
+  const data = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  let signature: Uint8Array<ArrayBuffer>;
+  try {
+    signature = base64UrlToBytes(parts[2]);
+  } catch {
+    return { ok: false, code: 'TOKEN_MALFORMED' };
+  }
+
+  const verifyAlgorithm =
+    alg === 'HS256'
+      ? { name: 'HMAC' }
+      : alg === 'RS256'
+        ? { name: 'RSASSA-PKCS1-v1_5' }
+        : { name: 'ECDSA', hash: 'SHA-256' };
+
+  const valid = await crypto.subtle
+    .verify(verifyAlgorithm, key, signature, data)
+    .catch(() => false);
+  if (!valid) return { ok: false, code: 'TOKEN_SIGNATURE_INVALID' };
+
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    typeof claims.exp !== 'number' ||
+    now - JWT_CLOCK_TOLERANCE_SEC >= claims.exp
+  ) {
+    return { ok: false, code: 'TOKEN_EXPIRED' };
+  }
+  if (
+    typeof claims.nbf === 'number' &&
+    now + JWT_CLOCK_TOLERANCE_SEC < claims.nbf
+  ) {
+    return { ok: false, code: 'TOKEN_NOT_YET_VALID' };
+  }
+  if (JWT_ISSUER && claims.iss !== JWT_ISSUER) {
+    return { ok: false, code: 'TOKEN_ISSUER_INVALID' };
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (JWT_AUDIENCE && !audiences.includes(JWT_AUDIENCE)) {
+    return { ok: false, code: 'TOKEN_AUDIENCE_INVALID' };
+  }
+  if (!claims.sub) return { ok: false, code: 'TOKEN_SUBJECT_MISSING' };
+
+  return { ok: true, claims: { ...claims, sub: claims.sub } };
+}
+
+export function authErrorResponse(
+  code: AuthErrorCode,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  return NextResponse.json(
+    { message: t(locale, `auth.${code}`), code },
+    { status: 401 }
+  );
+}
+
+/**
+ * Shortcut untuk route lain: ambil token dari header Authorization,
+ * verifikasi, dan kembalikan user id (sub) atau response 401.
+ */
+export async function authenticateRequest(
+  req: Request
+): Promise<
+  { ok: true; userId: string } | { ok: false; response: NextResponse }
+> {
+  const token = req.headers.get('Authorization')?.split(' ')[1];
+  const auth = await verifyAccessToken(token);
+  if (!auth.ok) {
+    const locale = resolveLocale(req.headers.get('Accept-Language'));
+    return { ok: false, response: authErrorResponse(auth.code, locale) };
+  }
+  return { ok: true, userId: auth.claims.sub };
+}
@@ -0,0 +1,226 @@
+// File: lib/hidupai/chat.ts
+
+import { isConversationId } from './conversations';
+import { RESPONSE_FORMATS, ResponseFormat, isResponseFormat } from './format';
+import type { ChatMessage } from './types';
+
+/* =========================================================
+ *  CHAT REQUEST — schema body /api/chat + batas ukuran
+ * =======================================================*/
+
+// Batas bisa dioverride via env; default cukup untuk client web & bot
+const MAX_MESSAGES = Number(process.env.CHAT_MAX_MESSAGES) || 50;
+const MAX_MESSAGE_CHARS = Number(process.env.CHAT_MAX_MESSAGE_CHARS) || 4_000;
+const MAX_TOTAL_CHARS = Number(process.env.CHAT_MAX_TOTAL_CHARS) || 40_000;
+const MAX_NAME_LENGTH = 40;
+const MAX_EMAIL_LENGTH = 254;
+const MAX_MODE_LENGTH = 32;
+const MAX_LOCALE_LENGTH = 16;
+
+// Hanya role ini yang boleh datang dari client; system prompt milik server
+const CLIENT_ROLES = ['user', 'assistant'] as const;
+type ClientRole = (typeof CLIENT_ROLES)[number];
+
+export interface ClientChatMessage extends ChatMessage {
+  role: ClientRole;
+}
+
+export interface ChatRequestBody {
+  messages: ClientChatMessage[];
+  // Sudah disanitasi, aman masuk prompt
+  name: string;
+  email?: string;
+  mode?: string;
+  stream?: boolean;
+  // 'id' | 'en' | 'ms' — kalau kosong pakai users.locale / Accept-Language
+  locale?: string;
+  // Kalau diisi, histori diambil dari server; messages cukup pesan baru
+  conversationId?: string;
+  // Format jawaban ke client; default plain
+  format?: ResponseFormat;
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type ChatRequestResult =
+  | { ok: true; value: ChatRequestBody }
+  | { ok: false; errors: FieldError[] };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Nama masuk apa adanya ke system prompt: buang karakter kontrol,
+ * markup & tanda baca yang bisa dipakai menyusun instruksi, sisakan
+ * huruf, angka, spasi dan . ' -
+ */
+export function sanitizeName(raw: string): string {
+  return raw
+    .normalize('NFKC')
+    .replace(/[^\p{L}\p{M}\p{N} .'-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+    .trim();
+}
+
+function validateMessages(input: unknown, errors: FieldError[]) {
+  if (!Array.isArray(input) || !input.length) {
+    errors.push({ field: 'messages', message: 'messages wajib array berisi' });
+    return [];
+  }
+  if (input.length > MAX_MESSAGES) {
+    errors.push({
+      field: 'messages',
+      message: `maks ${MAX_MESSAGES} pesan per request`,
+    });
+    return [];
+  }
+
+  const messages: ClientChatMessage[] = [];
+  let totalChars = 0;
+
+  input.forEach((item: unknown, i) => {
+    const field = `messages[${i}]`;
+    if (!isPlainObject(item)) {
+      errors.push({ field, message: 'harus object { role, content }' });
+      return;
+    }
+
+    const { role, content } = item;
+    if (!(CLIENT_ROLES as readonly unknown[]).includes(role)) {
+      errors.push({
+        field: `${field}.role`,
+        message:
+          role === 'system'
+            ? 'role system tidak diizinkan dari client'
+            : `role harus salah satu dari: ${CLIENT_ROLES.join(', ')}`,
+      });
+      return;
+    }
+    if (typeof content !== 'string' || !content.trim()) {
+      errors.push({
+        field: `${field}.content`,
+        message: 'content wajib diisi',
+      });
+      return;
+    }
+    if (content.length > MAX_MESSAGE_CHARS) {
+      errors.push({
+        field: `${field}.content`,
+        message: `content maks ${MAX_MESSAGE_CHARS} karakter`,
+      });
+      return;
+    }
+
+    // Hanya dibandingkan dengan pesan tepat sebelumnya yang valid
+    const previous = messages.length === i ? messages[i - 1] : undefined;
+    if (previous && previous.role === role) {
+      errors.push({
+        field: `${field}.role`,
+        message: 'role user/assistant harus bergantian',
+      });
+    }
+
+    totalChars += content.length;
+    // Field lain (id, timestamp dari UI client) tidak diteruskan
+    messages.push({ role: role as ClientRole, content });
+  });
+
+  if (totalChars > MAX_TOTAL_CHARS) {
+    errors.push({
+      field: 'messages',
+      message: `total content maks ${MAX_TOTAL_CHARS} karakter`,
+    });
+  }
+  const last = input[input.length - 1] as { role?: unknown } | null;
+  if (isPlainObject(last) && last.role !== 'user') {
+    errors.push({
+      field: `messages[${input.length - 1}].role`,
+      message: 'pesan terakhir harus dari user',
+    });
+  }
+
+  return messages;
+}
+
+function optionalString(
+  body: Record<string, unknown>,
+  field: string,
+  maxLength: number,
+  errors: FieldError[]
+): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > maxLength) {
+    errors.push({ field, message: `harus string maks ${maxLength} karakter` });
+    return undefined;
+  }
+  return value.trim();
+}
+
+/**
+ * Validasi body /api/chat. Semua field yang gagal dikumpulkan sekaligus
+ * supaya client bisa menampilkan semuanya dalam satu 400.
+ */
+export function parseChatRequest(input: unknown): ChatRequestResult {
+  if (!isPlainObject(input)) {
+    return {
+      ok: false,
+      errors: [{ field: 'body', message: 'body harus object JSON' }],
+    };
+  }
+
+  const errors: FieldError[] = [];
+  const messages = validateMessages(input.messages, errors);
+
+  let name = '';
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    errors.push({ field: 'name', message: 'name wajib diisi' });
+  } else {
+    name = sanitizeName(input.name);
+    if (!name) {
+      errors.push({ field: 'name', message: 'name tidak berisi huruf/angka' });
+    }
+  }
+
+  const email = optionalString(input, 'email', MAX_EMAIL_LENGTH, errors);
+  const mode = optionalString(input, 'mode', MAX_MODE_LENGTH, errors);
+  const locale = optionalString(input, 'locale', MAX_LOCALE_LENGTH, errors);
+
+  if (input.stream !== undefined && typeof input.stream !== 'boolean') {
+    errors.push({ field: 'stream', message: 'stream harus boolean' });
+  }
+
+  const conversationId = input.conversationId ?? undefined;
+  if (conversationId !== undefined && !isConversationId(conversationId)) {
+    errors.push({ field: 'conversationId', message: 'harus UUID' });
+  }
+
+  const format = input.format ?? undefined;
+  if (format !== undefined && !isResponseFormat(format)) {
+    errors.push({
+      field: 'format',
+      message: `format harus salah satu dari: ${RESPONSE_FORMATS.join(', ')}`,
+    });
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      messages,
+      name,
+      email,
+      mode,
+      stream: input.stream as boolean | undefined,
+      locale,
+      conversationId: conversationId as string | undefined,
+      format: format as ResponseFormat | undefined,
+    },
+  };
+}
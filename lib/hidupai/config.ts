@@ -0,0 +1,68 @@
+// File: lib/hidupai/config.ts
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/* =========================================================
+ * AI CONFIG — OPENAI + GEMINI
+ * =======================================================*/
+
+// Bisa diarahkan ke server OpenAI-compatible (llama.cpp, vLLM, Ollama):
+// OPENAI_BASE_URL=http://localhost:11434/v1
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const OPENAI_BASE_URL = (
+  process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+).replace(/\/+$/, '');
+
+export const OPENAI_API_URL =
+  process.env.OPENAI_CHAT_URL || `${OPENAI_BASE_URL}/chat/completions`;
+export const OPENAI_SUMMARIZER_URL =
+  process.env.OPENAI_SUMMARIZER_URL || OPENAI_API_URL;
+export const OPENAI_EMBED_URL =
+  process.env.OPENAI_EMBED_URL || `${OPENAI_BASE_URL}/embeddings`;
+
+// Server self-hosted biasanya tidak butuh API key
+export const OPENAI_ENABLED =
+  Boolean(process.env.OPENAI_API_KEY) ||
+  OPENAI_BASE_URL !== DEFAULT_OPENAI_BASE_URL;
+
+export const openAIHeaders = (): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(process.env.OPENAI_API_KEY
+    ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` }
+    : {}),
+});
+
+export const OPENAI_MAIN_MODEL =
+  process.env.OPENAI_MAIN_MODEL || 'gpt-4o-mini';
+
+export const OPENAI_SUMMARIZER_MODEL =
+  process.env.OPENAI_SUMMARIZER_MODEL || 'gpt-4o-mini';
+
+export const OPENAI_EMBED_MODEL =
+  process.env.OPENAI_EMBED_MODEL || 'text-embedding-3-small';
+
+export const GEMINI_MODEL =
+  process.env.GEMINI_MODEL || 'gemini-1.5-flash-latest';
+
+export const GEMINI_EMBED_MODEL =
+  process.env.GEMINI_EMBED_MODEL || 'text-embedding-004';
+
+// Server embedding lokal OpenAI-compatible (Ollama, llama.cpp, TEI),
+// terpisah dari OPENAI_BASE_URL supaya chat tetap bisa ke OpenAI:
+// LOCAL_EMBED_URL=http://localhost:11434/v1/embeddings
+export const LOCAL_EMBED_URL = process.env.LOCAL_EMBED_URL || '';
+export const LOCAL_EMBED_MODEL =
+  process.env.LOCAL_EMBED_MODEL || 'nomic-embed-text';
+
+// Mode provider: openai | gemini | hybrid | mock
+// (urutan fallback detail bisa diatur lewat AI_PROVIDER_CHAIN)
+// mock = balasan deterministik tanpa network, untuk dev offline
+export const AI_PROVIDER =
+  (process.env.AI_PROVIDER as 'openai' | 'gemini' | 'hybrid' | 'mock') ||
+  'hybrid';
+
+export const MOCK_MODE = AI_PROVIDER === 'mock';
+
+export const genAI = process.env.GOOGLE_API_KEY
+  ? new GoogleGenerativeAI(process.env.GOOGLE_API_KEY)
+  : null;
@@ -0,0 +1,324 @@
+// File: lib/hidupai/context.ts
+
+import { createLogger } from './log';
+import type { ChatMessage } from './types';
+
+const log = createLogger('context');
+
+/* =========================================================
+ *  CONTEXT BUILDER — hitung token per model & budget per section
+ * =======================================================*/
+
+export type ContextSection =
+  | 'system'
+  | 'goal'
+  | 'pinned'
+  | 'lastConversation'
+  | 'lifeMemory'
+  | 'retrieved'
+  | 'historySummary'
+  | 'history';
+
+interface ModelProfile {
+  contextWindow: number;
+  // Estimasi kasar; teks Indonesia cenderung lebih boros token
+  charsPerToken: number;
+  // Overhead format per pesan (role, separator)
+  tokensPerMessage: number;
+}
+
+const DEFAULT_PROFILE: ModelProfile = {
+  contextWindow: 8_192,
+  charsPerToken: 3.5,
+  tokensPerMessage: 4,
+};
+
+// Urutan penting: pola yang lebih spesifik di atas
+const MODEL_PROFILES: [RegExp, ModelProfile][] = [
+  [
+    /^(gpt-4o|gpt-4\.1|o\d)/,
+    { contextWindow: 128_000, charsPerToken: 4, tokensPerMessage: 4 },
+  ],
+  [
+    /^gpt-4-turbo/,
+    { contextWindow: 128_000, charsPerToken: 3.5, tokensPerMessage: 4 },
+  ],
+  [
+    /^gpt-4/,
+    { contextWindow: 8_192, charsPerToken: 3.5, tokensPerMessage: 4 },
+  ],
+  [
+    /^gpt-3\.5/,
+    { contextWindow: 16_385, charsPerToken: 3.5, tokensPerMessage: 4 },
+  ],
+  [
+    /^gemini-(1\.5|2)/,
+    { contextWindow: 1_000_000, charsPerToken: 4, tokensPerMessage: 2 },
+  ],
+  [
+    /^gemini/,
+    { contextWindow: 32_768, charsPerToken: 4, tokensPerMessage: 2 },
+  ],
+  [/^mock/, { contextWindow: 8_192, charsPerToken: 4, tokensPerMessage: 0 }],
+];
+
+const modelProfile = (model: string): ModelProfile =>
+  MODEL_PROFILES.find(([pattern]) => pattern.test(model))?.[1] ||
+  DEFAULT_PROFILE;
+
+export const countTokens = (text: string, model: string) =>
+  text ? Math.ceil(text.length / modelProfile(model).charsPerToken) : 0;
+
+export const countMessageTokens = (message: ChatMessage, model: string) =>
+  countTokens(message.content, model) + modelProfile(model).tokensPerMessage;
+
+// Batas input demi biaya, terlepas dari context window model
+const CONTEXT_MAX_INPUT_TOKENS =
+  Number(process.env.CONTEXT_MAX_INPUT_TOKENS) || 8_000;
+const CONTEXT_OUTPUT_RESERVE =
+  Number(process.env.CONTEXT_OUTPUT_RESERVE) || 1_024;
+
+const DEFAULT_SECTION_BUDGETS: Record<ContextSection, number> = {
+  system: 2_000,
+  goal: 300,
+  pinned: 300,
+  lastConversation: 300,
+  lifeMemory: 800,
+  retrieved: 600,
+  historySummary: 250,
+  history: 4_000,
+};
+
+// Override sebagian, contoh: CONTEXT_BUDGETS={"history":2000}
+const SECTION_BUDGETS: Record<ContextSection, number> = (() => {
+  const raw = process.env.CONTEXT_BUDGETS;
+  if (!raw) return DEFAULT_SECTION_BUDGETS;
+  try {
+    const parsed = JSON.parse(raw) as Partial<Record<ContextSection, number>>;
+    const budgets = { ...DEFAULT_SECTION_BUDGETS };
+    for (const key of Object.keys(budgets) as ContextSection[]) {
+      const value = Number(parsed[key]);
+      if (Number.isFinite(value) && value >= 0) budgets[key] = value;
+    }
+    return budgets;
+  } catch {
+    log.error('CONTEXT_BUDGETS tidak valid', { value: raw });
+    return DEFAULT_SECTION_BUDGETS;
+  }
+})();
+
+export const sectionBudget = (section: ContextSection) =>
+  SECTION_BUDGETS[section];
+
+/** Model dengan context window paling sempit di antara kandidat. */
+export function narrowestModel(models: string[]): string {
+  if (!models.length) return 'default';
+  return models.reduce((narrowest, candidate) =>
+    modelProfile(candidate).contextWindow <
+    modelProfile(narrowest).contextWindow
+      ? candidate
+      : narrowest
+  );
+}
+
+/**
+ * Potong teks ke budget token. Utuh per baris kalau bisa;
+ * kalau baris pertama saja sudah kebesaran, potong per karakter.
+ */
+export function truncateToTokens(
+  text: string,
+  budget: number,
+  model: string
+): string {
+  if (countTokens(text, model) <= budget) return text;
+  if (budget <= 0) return '';
+
+  const kept: string[] = [];
+  let tokens = 0;
+  for (const line of text.split('\n')) {
+    const cost = countTokens(line, model) + 1;
+    if (tokens + cost > budget) break;
+    kept.push(line);
+    tokens += cost;
+  }
+  if (kept.length) return kept.join('\n');
+
+  const maxChars = Math.floor(budget * modelProfile(model).charsPerToken) - 1;
+  return `${text.slice(0, Math.max(maxChars, 0)).trimEnd()}…`;
+}
+
+const snippet = (text: string, max = 120) => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+};
+
+/**
+ * Ringkasan deterministik untuk giliran lama yang tidak muat:
+ * satu baris per pesan user, yang terbaru diprioritaskan.
+ */
+function summarizeTurns(
+  turns: ChatMessage[],
+  name: string,
+  budget: number,
+  model: string
+): { text: string; count: number } {
+  const lines: string[] = [];
+  let tokens = 0;
+  let count = 0;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].role !== 'user') continue;
+    const line = `- ${name}: ${snippet(turns[i].content)}`;
+    const cost = countTokens(line, model) + 1;
+    if (tokens + cost > budget) break;
+    lines.unshift(line);
+    tokens += cost;
+    count += 1;
+  }
+
+  return { text: lines.join('\n'), count };
+}
+
+export interface SectionReport {
+  tokens: number;
+  budget: number;
+  trimmed: boolean;
+}
+
+export interface ContextReport {
+  model: string;
+  contextWindow: number;
+  inputBudget: number;
+  used: number;
+  sections: Partial<Record<ContextSection, SectionReport>>;
+  history: {
+    total: number;
+    kept: number;
+    summarized: number;
+    dropped: number;
+  };
+}
+
+export interface AssembledContext {
+  sections: Partial<Record<ContextSection, string>>;
+  history: ChatMessage[];
+  report: ContextReport;
+}
+
+type MemorySection = Exclude<
+  ContextSection,
+  'system' | 'historySummary' | 'history'
+>;
+
+/**
+ * Susun konteks untuk satu panggilan model. `models` = semua model di
+ * rantai fallback; budget mengikuti model yang paling sempit supaya
+ * fallback tidak overflow.
+ */
+export function assembleContext(input: {
+  models: string[];
+  name: string;
+  // System prompt tanpa blok memori (persona + mode)
+  systemPrompt: string;
+  sections: Partial<Record<MemorySection, string>>;
+  history: ChatMessage[];
+}): AssembledContext {
+  const model = narrowestModel(input.models);
+  const { contextWindow } = modelProfile(model);
+  const inputBudget = Math.min(
+    CONTEXT_MAX_INPUT_TOKENS,
+    contextWindow - CONTEXT_OUTPUT_RESERVE
+  );
+
+  const report: ContextReport = {
+    model,
+    contextWindow,
+    inputBudget,
+    used: 0,
+    sections: {},
+    history: {
+      total: input.history.length,
+      kept: 0,
+      summarized: 0,
+      dropped: 0,
+    },
+  };
+  const sections: Partial<Record<ContextSection, string>> = {};
+
+  // Persona & mode tidak dipotong, hanya dilaporkan
+  const systemTokens = countTokens(input.systemPrompt, model);
+  report.sections.system = {
+    tokens: systemTokens,
+    budget: SECTION_BUDGETS.system,
+    trimmed: false,
+  };
+  let used = systemTokens;
+
+  for (const key of Object.keys(input.sections) as MemorySection[]) {
+    const text = input.sections[key];
+    if (!text) continue;
+
+    const budget = Math.min(SECTION_BUDGETS[key], inputBudget - used);
+    const fitted = truncateToTokens(text, budget, model);
+    const tokens = countTokens(fitted, model);
+
+    report.sections[key] = { tokens, budget, trimmed: fitted !== text };
+    if (fitted) sections[key] = fitted;
+    used += tokens;
+  }
+
+  // Riwayat chat: dari yang terbaru ke belakang sampai budget habis.
+  // Pesan terakhir selalu ikut walau melebihi budget.
+  const historyBudget = Math.min(
+    SECTION_BUDGETS.history,
+    Math.max(inputBudget - used - SECTION_BUDGETS.historySummary, 0)
+  );
+  const kept: ChatMessage[] = [];
+  let historyTokens = 0;
+
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const cost = countMessageTokens(input.history[i], model);
+    if (kept.length && historyTokens + cost > historyBudget) break;
+    kept.unshift(input.history[i]);
+    historyTokens += cost;
+  }
+
+  const older = input.history.slice(0, input.history.length - kept.length);
+  report.history.kept = kept.length;
+  report.sections.history = {
+    tokens: historyTokens,
+    budget: historyBudget,
+    trimmed: older.length > 0,
+  };
+  used += historyTokens;
+
+  if (older.length) {
+    const summary = summarizeTurns(
+      older,
+      input.name,
+      Math.min(SECTION_BUDGETS.historySummary, inputBudget - used),
+      model
+    );
+    const summaryTokens = countTokens(summary.text, model);
+    const olderUserTurns = older.filter((m) => m.role === 'user').length;
+
+    if (summary.text) sections.historySummary = summary.text;
+    report.sections.historySummary = {
+      tokens: summaryTokens,
+      budget: SECTION_BUDGETS.historySummary,
+      trimmed: summary.count < olderUserTurns,
+    };
+    report.history.summarized = summary.count;
+    report.history.dropped = older.length - summary.count;
+    used += summaryTokens;
+  }
+
+  report.used = used;
+  return { sections, history: kept, report };
+}
+
+/** Ringkas laporan untuk log: section mana saja yang dipotong. */
+export const trimmedSections = (report: ContextReport): ContextSection[] =>
+  (Object.keys(report.sections) as ContextSection[]).filter(
+    (key) => report.sections[key]?.trimmed
+  );
@@ -0,0 +1,230 @@
+// File: lib/hidupai/conversations.ts
+
+import { createLogger } from './log';
+import { supabase } from './supabase';
+import type { ChatMessage } from './types';
+
+const log = createLogger('conversations');
+
+/* =========================================================
+ *  CONVERSATIONS — thread & pesan tersimpan di server
+ * =======================================================*/
+
+export const MAX_TITLE_LENGTH = 120;
+
+// Batas histori yang dimuat per request; context builder memotong lagi
+export const THREAD_HISTORY_LIMIT =
+  Number(process.env.THREAD_HISTORY_LIMIT) || 50;
+
+export interface ConversationRow {
+  id: string;
+  title: string | null;
+  created_at: string;
+  last_message_at: string;
+}
+
+export interface ConversationMessageRow {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  meta: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export const CONVERSATION_COLUMNS = 'id, title, created_at, last_message_at';
+export const MESSAGE_COLUMNS = 'id, role, content, meta, created_at';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const isConversationId = (value: unknown): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value);
+
+/** Judul otomatis dari pesan pertama user. */
+export function titleFromMessage(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 60 ? `${flat.slice(0, 60)}…` : flat;
+}
+
+/** Ambil thread milik user; null kalau tidak ada / bukan miliknya. */
+export async function findConversation(
+  userId: string,
+  conversationId: string
+): Promise<ConversationRow | null> {
+  if (!isConversationId(conversationId)) return null;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    log.error('find error', { err: error });
+    return null;
+  }
+  return (data as ConversationRow | null) || null;
+}
+
+export async function createConversation(
+  userId: string,
+  title: string | null = null
+): Promise<ConversationRow | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ user_id: userId, title })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (error) {
+    log.error('create error', { err: error });
+    return null;
+  }
+  return data as ConversationRow;
+}
+
+/**
+ * Pesan terakhir dalam thread (maks `limit`), urut lama → baru,
+ * dalam format yang langsung bisa dikirim ke model.
+ */
+export async function loadThreadHistory(
+  conversationId: string,
+  limit = THREAD_HISTORY_LIMIT
+): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .select('role, content')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    log.error('history error', { err: error });
+    return [];
+  }
+
+  return ((data || []) as ChatMessage[]).reverse();
+}
+
+/**
+ * Keputusan mode di jawaban terakhir thread (meta.mode), supaya deteksi
+ * mode lewat model cukup sekali per thread. Null kalau belum ada.
+ */
+export async function loadThreadMode(
+  conversationId: string
+): Promise<{ mode: string; source: string } | null> {
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .select('meta')
+    .eq('conversation_id', conversationId)
+    .eq('role', 'assistant')
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    log.error('thread mode error', { err: error });
+    return null;
+  }
+
+  const decision = (data?.[0]?.meta as Record<string, unknown> | null)
+    ?.mode as { mode?: unknown; source?: unknown } | undefined;
+  if (
+    typeof decision?.mode !== 'string' ||
+    typeof decision.source !== 'string'
+  ) {
+    return null;
+  }
+  return { mode: decision.mode, source: decision.source };
+}
+
+/**
+ * Pasangan tanya-jawab terakhir dari thread lain (untuk blok
+ * "Percakapan terakhir"). Null kalau belum ada.
+ */
+export async function loadLastExchange(
+  userId: string,
+  excludeConversationId: string | null
+): Promise<{ question: string; answer: string } | null> {
+  let query = supabase
+    .from('conversations')
+    .select('id')
+    .eq('user_id', userId)
+    .order('last_message_at', { ascending: false })
+    .limit(1);
+  if (excludeConversationId) query = query.neq('id', excludeConversationId);
+
+  const { data: threads, error } = await query;
+  if (error || !threads?.length) return null;
+
+  const { data: rows } = await supabase
+    .from('conversation_messages')
+    .select('role, content')
+    .eq('conversation_id', threads[0].id as string)
+    .order('created_at', { ascending: false })
+    .limit(2);
+
+  const latest = (rows || []) as ChatMessage[];
+  if (!latest.length) return null;
+
+  return {
+    question: latest.find((m) => m.role === 'user')?.content || '',
+    answer: latest.find((m) => m.role === 'assistant')?.content || '',
+  };
+}
+
+/**
+ * Simpan satu giliran (pesan user + jawaban) dan geser last_message_at.
+ * Thread tanpa judul diberi judul dari pesan user. Mengembalikan id
+ * pesan jawaban (null kalau gagal disimpan).
+ */
+export async function appendTurn(params: {
+  userId: string;
+  conversation: ConversationRow;
+  userMessage: string;
+  aiMessage: string;
+  meta?: Record<string, unknown>;
+}): Promise<string | null> {
+  const { userId, conversation, userMessage, aiMessage, meta } = params;
+  const now = Date.now();
+
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .insert([
+      {
+        conversation_id: conversation.id,
+        user_id: userId,
+        role: 'user',
+        content: userMessage,
+        created_at: new Date(now).toISOString(),
+      },
+      {
+        conversation_id: conversation.id,
+        user_id: userId,
+        role: 'assistant',
+        content: aiMessage,
+        meta: meta ?? null,
+        // +1ms supaya urutan user → assistant stabil
+        created_at: new Date(now + 1).toISOString(),
+      },
+    ])
+    .select('id, role');
+
+  if (error) {
+    log.error('append error', { err: error });
+    return null;
+  }
+
+  await supabase
+    .from('conversations')
+    .update({
+      last_message_at: new Date(now + 1).toISOString(),
+      ...(conversation.title
+        ? {}
+        : { title: titleFromMessage(userMessage) || null }),
+    })
+    .eq('id', conversation.id);
+
+  const reply = (data || []).find((m) => m.role === 'assistant');
+  return (reply?.id as string | undefined) ?? null;
+}
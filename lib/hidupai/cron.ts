@@ -0,0 +1,193 @@
+// File: lib/hidupai/cron.ts
+
+import { NextResponse } from 'next/server';
+import { createLogger, runWithRequest } from './log';
+import { supabase } from './supabase';
+
+const log = createLogger('cron');
+
+/* =========================================================
+ *  CRON — secret & batch yang bisa dilanjutkan
+ * =======================================================*/
+
+const CRON_SECRET = process.env.CRON_SECRET || '';
+const CRON_BATCH_SIZE = Number(process.env.CRON_BATCH_SIZE) || 25;
+// Sisakan waktu sebelum batas eksekusi serverless
+const CRON_TIME_BUDGET_MS = Number(process.env.CRON_TIME_BUDGET_MS) || 45_000;
+const CRON_LOCK_SECONDS = Math.ceil(CRON_TIME_BUDGET_MS / 1000) + 30;
+
+export interface CronUserRow {
+  id: string;
+  email: string;
+  locale: string | null;
+  weekly_goal: string | null;
+  last_interaction: string | null;
+}
+
+const CRON_USER_COLUMNS = 'id, email, locale, weekly_goal, last_interaction';
+
+// Bandingkan tanpa short-circuit supaya tidak bocor lewat timing
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Cek secret cron dari header Authorization: Bearer <secret>
+ * (format Vercel Cron) atau x-cron-secret. null = lolos.
+ */
+export function verifyCronSecret(req: Request): NextResponse | null {
+  if (!CRON_SECRET) {
+    log.error('CRON_SECRET belum diset, request ditolak');
+    return NextResponse.json(
+      { message: 'Cron belum dikonfigurasi' },
+      { status: 503 }
+    );
+  }
+
+  const bearer = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const provided = bearer || req.headers.get('x-cron-secret') || '';
+
+  if (!safeEqual(provided, CRON_SECRET)) {
+    return NextResponse.json(
+      { message: 'Akses tidak sah 🔒', code: 'CRON_UNAUTHORIZED' },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+export interface CronRunResult {
+  job: string;
+  period: string;
+  status: 'done' | 'partial' | 'already_done' | 'locked';
+  processed: number;
+  generated: number;
+}
+
+/**
+ * Jalankan job per batch user (urut id). Progres disimpan di cron_runs
+ * setiap batch; kalau waktu habis, panggilan berikutnya melanjutkan dari
+ * cursor. `processUser` mengembalikan true kalau menghasilkan sesuatu.
+ * `haltOnError`: user gagal menghentikan run (lock dilepas) supaya
+ * diulang dari batch yang sama, bukan dilewati.
+ */
+export async function runBatchedJob(params: {
+  job: string;
+  period: string;
+  processUser: (user: CronUserRow) => Promise<boolean>;
+  haltOnError?: boolean;
+}): Promise<CronRunResult> {
+  const { job, period, processUser, haltOnError = false } = params;
+  const startedAt = Date.now();
+
+  const { data: claimed, error: claimError } = await supabase.rpc(
+    'claim_cron_run',
+    { p_job: job, p_period: period, p_lock_seconds: CRON_LOCK_SECONDS }
+  );
+  if (claimError) throw new Error(`claim ${job} gagal: ${claimError.message}`);
+
+  const claim = (
+    claimed as
+      | { cursor_id: string | null; processed: number; generated: number }[]
+      | null
+  )?.[0];
+
+  if (!claim) {
+    const { data: run } = await supabase
+      .from('cron_runs')
+      .select('status, processed, generated')
+      .eq('job', job)
+      .eq('period', period)
+      .maybeSingle();
+
+    return {
+      job,
+      period,
+      status: run?.status === 'done' ? 'already_done' : 'locked',
+      processed: (run?.processed as number) ?? 0,
+      generated: (run?.generated as number) ?? 0,
+    };
+  }
+
+  let cursor = claim.cursor_id;
+  let processed = claim.processed;
+  let generated = claim.generated;
+
+  while (Date.now() - startedAt < CRON_TIME_BUDGET_MS) {
+    let query = supabase
+      .from('users')
+      .select(CRON_USER_COLUMNS)
+      .order('id', { ascending: true })
+      .limit(CRON_BATCH_SIZE);
+    if (cursor) query = query.gt('id', cursor);
+
+    const { data: users, error } = await query;
+    if (error) throw new Error(`load users gagal: ${error.message}`);
+
+    const batch = (users || []) as CronUserRow[];
+
+    if (!batch.length) {
+      await supabase
+        .from('cron_runs')
+        .update({
+          status: 'done',
+          locked_until: null,
+          finished_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('job', job)
+        .eq('period', period);
+
+      return { job, period, status: 'done', processed, generated };
+    }
+
+    for (const user of batch) {
+      // Satu user gagal tidak menghentikan batch
+      try {
+        // Log & usage model tercatat atas nama user yang diproses
+        const wrote = await runWithRequest(
+          { requestId: `${job}:${period}`, userId: user.id },
+          () => processUser(user)
+        );
+        if (wrote) generated += 1;
+      } catch (err) {
+        log.error('user gagal', { job, userId: user.id, err });
+        if (haltOnError) {
+          await supabase
+            .from('cron_runs')
+            .update({ locked_until: null })
+            .eq('job', job)
+            .eq('period', period);
+          throw err;
+        }
+      }
+      processed += 1;
+    }
+    cursor = batch[batch.length - 1].id;
+
+    await supabase
+      .from('cron_runs')
+      .update({
+        cursor_id: cursor,
+        processed,
+        generated,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('job', job)
+      .eq('period', period);
+  }
+
+  // Waktu habis → lepas lock, lanjut di panggilan berikutnya
+  await supabase
+    .from('cron_runs')
+    .update({ locked_until: null })
+    .eq('job', job)
+    .eq('period', period);
+
+  return { job, period, status: 'partial', processed, generated };
+}
@@ -0,0 +1,377 @@
+// File: lib/hidupai/embeddings.ts
+
+import {
+  AI_PROVIDER,
+  GEMINI_EMBED_MODEL,
+  LOCAL_EMBED_MODEL,
+  LOCAL_EMBED_URL,
+  OPENAI_EMBED_MODEL,
+  OPENAI_EMBED_URL,
+  OPENAI_ENABLED,
+  genAI,
+  openAIHeaders,
+} from './config';
+import { sha256Hex } from './hash';
+import { createLogger } from './log';
+import { mockEmbedding } from './mock';
+import { supabase } from './supabase';
+import { estimateUsage, recordUsage } from './usage';
+
+const log = createLogger('embedding');
+
+/* =========================================================
+ *  EMBEDDING PROVIDERS — interface + OPENAI / LOCAL / GEMINI
+ * =======================================================*/
+
+export type EmbeddingProviderId = 'openai' | 'local' | 'gemini' | 'mock';
+
+// Ruang vektor = provider + model. Vektor dari ruang berbeda tidak
+// pernah dibandingkan (retrieval, cache, re-embed).
+export interface EmbeddingSpace {
+  provider: EmbeddingProviderId;
+  model: string;
+}
+
+export interface Embedding extends EmbeddingSpace {
+  vector: number[];
+}
+
+interface EmbeddingBatch {
+  // Urutan hasil = urutan input; null per item kalau kosong
+  vectors: (number[] | null)[];
+  // Token input dari provider; null = tidak dilaporkan (diestimasi)
+  inputTokens: number | null;
+}
+
+interface EmbeddingProvider {
+  id: EmbeddingProviderId;
+  model: string;
+  isConfigured(): boolean;
+  embed(inputs: string[]): Promise<EmbeddingBatch>;
+}
+
+// Opsional: text-embedding-3-* bisa dipotong ke dimensi tertentu
+const EMBED_DIMENSIONS = Number(process.env.OPENAI_EMBED_DIMENSIONS) || null;
+const EMBED_BATCH_SIZE = Number(process.env.EMBED_BATCH_SIZE) || 64;
+const MEMORY_CACHE_SIZE = 256;
+
+/** Endpoint /embeddings gaya OpenAI (OpenAI sendiri atau server lokal). */
+async function fetchOpenAICompatible(
+  url: string,
+  model: string,
+  inputs: string[],
+  dimensions: number | null
+): Promise<EmbeddingBatch> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: openAIHeaders(),
+    body: JSON.stringify({
+      model,
+      input: inputs,
+      ...(dimensions ? { dimensions } : {}),
+    }),
+  });
+
+  if (!res.ok) {
+    throw new Error(`embedding ${res.status}: ${await res.text()}`);
+  }
+
+  const json = await res.json();
+  const vectors: (number[] | null)[] = inputs.map(() => null);
+  for (const item of (json.data || []) as {
+    index: number;
+    embedding: number[];
+  }[]) {
+    if (Array.isArray(item.embedding)) vectors[item.index] = item.embedding;
+  }
+  const tokens = json.usage?.prompt_tokens;
+  return { vectors, inputTokens: typeof tokens === 'number' ? tokens : null };
+}
+
+async function embedGemini(inputs: string[]): Promise<EmbeddingBatch> {
+  if (!genAI) throw new Error('GOOGLE_API_KEY missing');
+
+  const model = genAI.getGenerativeModel({ model: GEMINI_EMBED_MODEL });
+  const res = await model.batchEmbedContents({
+    requests: inputs.map((text) => ({
+      content: { role: 'user', parts: [{ text }] },
+    })),
+  });
+
+  const vectors = inputs.map((_, i) => {
+    const values = res.embeddings?.[i]?.values;
+    return Array.isArray(values) && values.length ? values : null;
+  });
+  return { vectors, inputTokens: null };
+}
+
+const EMBEDDING_PROVIDERS: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: {
+    id: 'openai',
+    model: OPENAI_EMBED_MODEL,
+    isConfigured: () => OPENAI_ENABLED,
+    embed: (inputs) =>
+      fetchOpenAICompatible(
+        OPENAI_EMBED_URL,
+        OPENAI_EMBED_MODEL,
+        inputs,
+        EMBED_DIMENSIONS
+      ),
+  },
+  local: {
+    id: 'local',
+    model: LOCAL_EMBED_MODEL,
+    isConfigured: () => Boolean(LOCAL_EMBED_URL),
+    embed: (inputs) =>
+      fetchOpenAICompatible(LOCAL_EMBED_URL, LOCAL_EMBED_MODEL, inputs, null),
+  },
+  gemini: {
+    id: 'gemini',
+    model: GEMINI_EMBED_MODEL,
+    isConfigured: () => Boolean(genAI),
+    embed: embedGemini,
+  },
+  mock: {
+    id: 'mock',
+    model: 'mock-hash-v1',
+    isConfigured: () => true,
+    embed: async (inputs) => ({
+      vectors: inputs.map((text) => mockEmbedding(text)),
+      inputTokens: null,
+    }),
+  },
+};
+
+// Urutan fallback, contoh: EMBEDDING_PROVIDER_CHAIN=local,gemini
+// Kalau kosong, mengikuti AI_PROVIDER seperti chain chat.
+const EMBEDDING_CHAIN: EmbeddingProviderId[] = (() => {
+  const raw = process.env.EMBEDDING_PROVIDER_CHAIN;
+  if (raw) {
+    const ids = raw
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p): p is EmbeddingProviderId =>
+        Object.hasOwn(EMBEDDING_PROVIDERS, p)
+      );
+    if (ids.length) return ids;
+    log.error('EMBEDDING_PROVIDER_CHAIN tidak valid', { value: raw });
+  }
+  if (AI_PROVIDER === 'mock') return ['mock'];
+  if (AI_PROVIDER === 'gemini') return ['gemini'];
+  if (AI_PROVIDER === 'openai') return ['openai'];
+  return ['openai', 'gemini'];
+})();
+
+const configuredProviders = () =>
+  EMBEDDING_CHAIN.map((id) => EMBEDDING_PROVIDERS[id]).filter((p) =>
+    p.isConfigured()
+  );
+
+/** Ruang vektor utama (provider pertama yang aktif), target re-embed. */
+export function primaryEmbeddingSpace(): EmbeddingSpace | null {
+  const provider = configuredProviders()[0];
+  return provider ? { provider: provider.id, model: provider.model } : null;
+}
+
+/* =========================================================
+ *  CACHE — per instance + embedding_cache (hash konten)
+ * =======================================================*/
+
+// Cache per instance (hit dalam satu request / fungsi yang masih hangat);
+// embedding_cache di database berlaku lintas instance
+const memoryCache = new Map<string, number[]>();
+
+const spaceKey = (space: EmbeddingSpace, hash: string) =>
+  `${space.provider}:${space.model}:${hash}`;
+
+function rememberInMemory(key: string, vector: number[]) {
+  memoryCache.delete(key);
+  memoryCache.set(key, vector);
+  if (memoryCache.size > MEMORY_CACHE_SIZE) {
+    memoryCache.delete(memoryCache.keys().next().value as string);
+  }
+}
+
+// Cache dikunci oleh hash konten, bukan konten itu sendiri
+const contentHash = (text: string) => sha256Hex(text.trim());
+
+async function readCache(
+  space: EmbeddingSpace,
+  hashes: string[]
+): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  if (!hashes.length) return found;
+
+  const { data, error } = await supabase
+    .from('embedding_cache')
+    .select('content_hash, embedding')
+    .eq('provider', space.provider)
+    .eq('model', space.model)
+    .in('content_hash', hashes);
+
+  if (error) {
+    log.error('cache read error', { err: error });
+    return found;
+  }
+  for (const row of data || []) {
+    found.set(row.content_hash as string, row.embedding as number[]);
+  }
+  return found;
+}
+
+async function writeCache(
+  space: EmbeddingSpace,
+  entries: { hash: string; vector: number[] }[]
+) {
+  if (!entries.length) return;
+
+  const { error } = await supabase.from('embedding_cache').upsert(
+    entries.map(({ hash, vector }) => ({
+      provider: space.provider,
+      model: space.model,
+      content_hash: hash,
+      dims: vector.length,
+      embedding: vector,
+    })),
+    { onConflict: 'provider,model,content_hash', ignoreDuplicates: true }
+  );
+  if (error) log.error('cache write error', { err: error });
+}
+
+/* =========================================================
+ *  EMBEDDING ENGINE
+ * =======================================================*/
+
+/** Embed dengan satu provider: cache dulu, sisanya per batch. */
+async function embedWithProvider(
+  provider: EmbeddingProvider,
+  cleaned: string[],
+  hashes: string[]
+): Promise<(number[] | null)[]> {
+  const space: EmbeddingSpace = {
+    provider: provider.id,
+    model: provider.model,
+  };
+  const vectors = new Map<string, number[]>();
+
+  for (const hash of hashes) {
+    const hit = memoryCache.get(spaceKey(space, hash));
+    if (hit) vectors.set(hash, hit);
+  }
+
+  const unresolved = Array.from(
+    new Set(hashes.filter((h, i) => cleaned[i] && !vectors.has(h)))
+  );
+  // Mock deterministik & murah → tidak perlu cache database
+  const cached =
+    provider.id === 'mock'
+      ? new Map<string, number[]>()
+      : await readCache(space, unresolved);
+  cached.forEach((vector, hash) => vectors.set(hash, vector));
+
+  const missing = unresolved
+    .filter((hash) => !cached.has(hash))
+    .map((hash) => ({ hash, text: cleaned[hashes.indexOf(hash)] }));
+
+  const fresh: { hash: string; vector: number[] }[] = [];
+  for (let i = 0; i < missing.length; i += EMBED_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBED_BATCH_SIZE);
+    const texts = batch.map((m) => m.text);
+    const { vectors: results, inputTokens } = await provider.embed(texts);
+
+    // Tidak di-await: ledger tidak boleh menambah latensi retrieval
+    void recordUsage({
+      kind: 'embedding',
+      provider: provider.id,
+      model: provider.model,
+      usage:
+        inputTokens === null
+          ? estimateUsage(texts.join('\n'), '', provider.model)
+          : { inputTokens, outputTokens: 0, estimated: false },
+    });
+
+    batch.forEach(({ hash }, j) => {
+      const vector = results[j];
+      if (!vector) return;
+      vectors.set(hash, vector);
+      fresh.push({ hash, vector });
+    });
+  }
+  if (provider.id !== 'mock') await writeCache(space, fresh);
+
+  vectors.forEach((vector, hash) =>
+    rememberInMemory(spaceKey(space, hash), vector)
+  );
+  return hashes.map((hash, i) =>
+    cleaned[i] ? vectors.get(hash) || null : null
+  );
+}
+
+/**
+ * Embedding untuk banyak teks sekaligus, semuanya dari SATU ruang
+ * vektor. Provider dicoba sesuai EMBEDDING_PROVIDER_CHAIN; provider
+ * yang error digantikan provider berikutnya untuk seluruh batch.
+ * `space` = paksa satu provider/model tanpa fallback (re-embed).
+ * null kalau tidak ada provider yang berhasil.
+ */
+export async function getEmbeddings(
+  texts: string[],
+  opts: { space?: EmbeddingSpace } = {}
+): Promise<{ space: EmbeddingSpace; vectors: (number[] | null)[] } | null> {
+  const cleaned = texts.map((text) => text.trim());
+  if (!cleaned.some(Boolean)) return null;
+
+  const providers = opts.space
+    ? configuredProviders().filter(
+        (p) => p.id === opts.space!.provider && p.model === opts.space!.model
+      )
+    : configuredProviders();
+  if (!providers.length) return null;
+
+  const hashes = await Promise.all(cleaned.map(contentHash));
+
+  for (const provider of providers) {
+    try {
+      const vectors = await embedWithProvider(provider, cleaned, hashes);
+      if (vectors.some(Boolean)) {
+        return {
+          space: { provider: provider.id, model: provider.model },
+          vectors,
+        };
+      }
+    } catch (err) {
+      log.warn('provider gagal', { provider: provider.id, err });
+    }
+  }
+
+  log.error('semua provider embedding gagal');
+  return null;
+}
+
+export async function getEmbedding(text: string): Promise<Embedding | null> {
+  const result = await getEmbeddings([text]);
+  const vector = result?.vectors[0];
+  return result && vector ? { ...result.space, vector } : null;
+}
+
+/** Kolom vektor + provider + model + dimensi untuk memory_embeddings. */
+export const embeddingColumns = ({ vector, provider, model }: Embedding) => ({
+  embedding: vector,
+  provider,
+  model,
+  dims: vector.length,
+});
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a.length || !b.length || a.length !== b.length) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  if (!na || !nb) return 0;
+  return dot / (Math.sqrt(na) * Math.sqrt(nb));
+}
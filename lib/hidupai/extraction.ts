@@ -0,0 +1,283 @@
+// File: lib/hidupai/extraction.ts
+
+import type { Goal, GoalProgressUpdate } from './goals';
+import type { Locale } from './i18n';
+import { createLogger } from './log';
+import { extractionPrompts, formatGoals } from './prompts';
+import { StructuredSchema, callStructured } from './summarizer';
+import type { ChatMessage } from './types';
+
+const log = createLogger('extraction');
+
+/* =========================================================
+ *  EKSTRAKSI TERSTRUKTUR — satu panggilan per giliran chat
+ * =======================================================*/
+
+export const EMOTIONS = [
+  'joy',
+  'sadness',
+  'anxiety',
+  'anger',
+  'fatigue',
+  'pride',
+  'confusion',
+  'neutral',
+] as const;
+export type Emotion = (typeof EMOTIONS)[number];
+
+export interface TurnExtraction {
+  insight: string | null;
+  episode: { summary: string; tags: string[] } | null;
+  importance: number; // 1-5
+  emotion: Emotion;
+  goalProgress: GoalProgressUpdate[];
+}
+
+// Tidak ada field nullable: "" / [] = kosong, supaya schema yang sama
+// valid di OpenAI strict mode maupun Gemini responseSchema.
+export const TURN_EXTRACTION_SCHEMA: StructuredSchema = {
+  name: 'turn_extraction',
+  schema: {
+    type: 'object',
+    properties: {
+      insight: { type: 'string' },
+      episode: {
+        type: 'object',
+        properties: {
+          summary: { type: 'string' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['summary', 'tags'],
+      },
+      importance: { type: 'integer', description: '1-5' },
+      emotion: { type: 'string', enum: [...EMOTIONS] },
+      goal_progress: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            goal: { type: 'integer' },
+            note: { type: 'string' },
+            milestones: { type: 'array', items: { type: 'integer' } },
+            done: { type: 'boolean' },
+          },
+          required: ['goal', 'note', 'milestones', 'done'],
+        },
+      },
+    },
+    required: ['insight', 'episode', 'importance', 'emotion', 'goal_progress'],
+  },
+};
+
+const MAX_TAGS = 5;
+const MAX_NOTE_LENGTH = 300;
+
+/* =========================================================
+ *  PARSE + VALIDASI (dengan perbaikan ringan)
+ * =======================================================*/
+
+export type ParseResult =
+  | { ok: true; value: TurnExtraction }
+  | { ok: false; errors: string[] };
+
+/** Buang code fence / teks pembuka, ambil objek JSON terluar. */
+function extractJsonObject(raw: string): unknown {
+  const cleaned = raw.replace(/```(?:json)?/gi, '');
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  if (start < 0 || end <= start) return undefined;
+
+  try {
+    return JSON.parse(cleaned.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+// "3" → 3, 3.6 → 4; selain itu NaN
+function toInteger(value: unknown): number {
+  const n =
+    typeof value === 'string' && value.trim() ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? Math.round(n) : NaN;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validasi output model terhadap TURN_EXTRACTION_SCHEMA. Kesalahan
+ * format kecil (angka sebagai string, tags dipisah koma, huruf besar
+ * di emotion) diperbaiki; sisanya dikembalikan sebagai errors untuk
+ * dikirim balik ke model. Nomor goal di luar daftar diabaikan.
+ */
+export function parseTurnExtraction(
+  raw: string,
+  goalCount: number
+): ParseResult {
+  const data = extractJsonObject(raw);
+  if (!isPlainObject(data)) {
+    return { ok: false, errors: ['output bukan objek JSON yang valid'] };
+  }
+
+  const errors: string[] = [];
+
+  if (typeof data.insight !== 'string') {
+    errors.push('insight harus string ("" kalau kosong)');
+  }
+  const insight =
+    typeof data.insight === 'string'
+      ? data.insight.trim().replace(/^[-•*]\s*/, '')
+      : '';
+
+  const episode = isPlainObject(data.episode) ? data.episode : null;
+  if (!episode || typeof episode.summary !== 'string') {
+    errors.push('episode.summary harus string');
+  }
+  const rawTags = episode?.tags;
+  const tagList =
+    typeof rawTags === 'string'
+      ? rawTags.split(',')
+      : Array.isArray(rawTags) && rawTags.every((t) => typeof t === 'string')
+        ? (rawTags as string[])
+        : null;
+  if (!tagList) errors.push('episode.tags harus array string');
+  const tags = (tagList || [])
+    .map((tag) => tag.trim().replace(/^#/, ''))
+    .filter(Boolean)
+    .slice(0, MAX_TAGS);
+
+  const importance = toInteger(data.importance);
+  if (Number.isNaN(importance) || importance < 1 || importance > 5) {
+    errors.push('importance harus integer 1-5');
+  }
+
+  const emotion =
+    typeof data.emotion === 'string' ? data.emotion.trim().toLowerCase() : '';
+  if (!(EMOTIONS as readonly string[]).includes(emotion)) {
+    errors.push(`emotion harus salah satu dari: ${EMOTIONS.join(', ')}`);
+  }
+
+  const goalProgress: GoalProgressUpdate[] = [];
+  if (!Array.isArray(data.goal_progress)) {
+    errors.push('goal_progress harus array ([] kalau tidak ada progres)');
+  } else {
+    for (const item of data.goal_progress) {
+      const goal = isPlainObject(item) ? toInteger(item.goal) : NaN;
+      if (!isPlainObject(item) || Number.isNaN(goal)) {
+        errors.push('goal_progress[].goal harus integer');
+        continue;
+      }
+      if (goal < 1 || goal > goalCount) continue;
+
+      const note = typeof item.note === 'string' ? item.note.trim() : '';
+      goalProgress.push({
+        goalIndex: goal - 1,
+        note: note ? note.slice(0, MAX_NOTE_LENGTH) : undefined,
+        milestoneIndexes: (Array.isArray(item.milestones)
+          ? item.milestones.map(toInteger)
+          : []
+        )
+          .filter((n) => Number.isInteger(n) && n >= 1)
+          .map((n) => n - 1),
+        done: item.done === true || item.done === 'true',
+      });
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  const summary = (episode!.summary as string).trim();
+  return {
+    ok: true,
+    value: {
+      insight: insight || null,
+      episode: summary ? { summary, tags } : null,
+      importance,
+      emotion: emotion as Emotion,
+      goalProgress,
+    },
+  };
+}
+
+/* =========================================================
+ *  PANGGILAN MODEL — JSON mode + satu kali retry
+ * =======================================================*/
+
+// Giliran terlalu pendek tidak layak diekstrak
+export const shouldExtract = (userMsg: string, aiMsg: string) =>
+  !!userMsg && aiMsg.length >= 40;
+
+/**
+ * Ekstrak insight, episode, importance, emotion dan progres goal dari
+ * satu giliran chat. Output tidak valid dikirim balik ke model sekali
+ * beserta daftar errornya; tetap gagal → null.
+ */
+export async function extractTurn(params: {
+  name: string;
+  locale: Locale;
+  memorySummary: string;
+  goals: Goal[];
+  userMsg: string;
+  aiMsg: string;
+}): Promise<TurnExtraction | null> {
+  const { name, locale, memorySummary, goals, userMsg, aiMsg } = params;
+  if (!shouldExtract(userMsg, aiMsg)) return null;
+
+  const prompts = extractionPrompts(locale);
+  const activeGoals = goals.some((g) => g.status === 'active');
+
+  // Schema ikut di prompt untuk provider tanpa JSON schema native
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: `${prompts.turn(name)}
+
+Schema:
+${JSON.stringify(TURN_EXTRACTION_SCHEMA.schema)}`,
+    },
+    {
+      role: 'user',
+      content: `
+${prompts.previousMemory}
+${memorySummary}
+${activeGoals ? `\n${prompts.goalList}\n${formatGoals(goals, locale)}\n` : ''}
+${prompts.userMessage(name)}
+${userMsg}
+
+${prompts.aiReply}
+${aiMsg}
+`.trim(),
+    },
+  ];
+
+  try {
+    const raw = await callStructured(messages, TURN_EXTRACTION_SCHEMA);
+    if (!raw) return null;
+
+    const first = parseTurnExtraction(raw, activeGoals ? goals.length : 0);
+    if (first.ok) return first.value;
+
+    log.warn('output tidak valid, retry', { errors: first.errors });
+    const retryRaw = await callStructured(
+      [
+        ...messages,
+        { role: 'assistant', content: raw },
+        { role: 'user', content: prompts.repair(first.errors) },
+      ],
+      TURN_EXTRACTION_SCHEMA
+    );
+    if (!retryRaw) return null;
+
+    const second = parseTurnExtraction(
+      retryRaw,
+      activeGoals ? goals.length : 0
+    );
+    if (second.ok) return second.value;
+
+    log.error('tetap tidak valid', { errors: second.errors });
+    return null;
+  } catch (err) {
+    log.error('error', { err });
+    return null;
+  }
+}
@@ -0,0 +1,143 @@
+// File: lib/hidupai/format.test.ts
+
+import { describe, expect, it } from 'vitest';
+import {
+  createFormatStream,
+  createMarkdownStreamStripper,
+  formatReply,
+  stripMarkdown,
+} from './format';
+
+// Kirim teks per potongan kecil, seperti token dari model
+function streamInChunks(
+  text: string,
+  size: number,
+  stream = createMarkdownStreamStripper()
+) {
+  let out = '';
+  for (let i = 0; i < text.length; i += size) {
+    out += stream.push(text.slice(i, i + size));
+  }
+  return out + stream.flush();
+}
+
+const SAMPLE = [
+  '',
+  'Halo **Budi**, ini *penting*.',
+  '',
+  '- langkah pertama',
+  '- langkah **kedua**',
+  '',
+  'Semangat ya 🤍',
+].join('\n');
+
+/* =========================================================
+ *  PLAIN
+ * =======================================================*/
+
+describe('stripMarkdown', () => {
+  it('membuang bold/italic & mengganti bullet', () => {
+    expect(stripMarkdown(SAMPLE)).toBe(
+      'Halo Budi, ini penting.\n\n• langkah pertama\n• langkah kedua\n\nSemangat ya 🤍'
+    );
+  });
+
+  it('membuang code block', () => {
+    expect(stripMarkdown('Coba:\n```js\nrm -rf /\n```\nSelesai')).toBe(
+      'Coba:\n\nSelesai'
+    );
+  });
+
+  it('tidak memakan baris kosong sebelum list', () => {
+    expect(stripMarkdown('Pembuka:\n\n- satu\n- dua')).toBe(
+      'Pembuka:\n\n• satu\n• dua'
+    );
+  });
+});
+
+describe('createMarkdownStreamStripper', () => {
+  it.each([1, 2, 3, 5, 8, 64])(
+    'hasil streaming per %i karakter sama dengan stripMarkdown',
+    (size) => {
+      const streamed = streamInChunks(SAMPLE, size);
+      expect(streamed).toBe(stripMarkdown(SAMPLE));
+    }
+  );
+
+  it('menahan * yang belum berpasangan', () => {
+    const stream = createMarkdownStreamStripper();
+    const first = stream.push('Ini **sangat pen');
+    expect(first).not.toContain('*');
+    const rest = stream.push('ting** ya') + stream.flush();
+    expect(first + rest).toBe('Ini sangat penting ya');
+  });
+
+  it('membuang isi code block', () => {
+    expect(streamInChunks('Coba:\n```js\nrm -rf /\n```\nSelesai', 4)).toBe(
+      'Coba:\nSelesai'
+    );
+  });
+
+  it('membuang spasi & baris kosong di awal', () => {
+    expect(streamInChunks('\n\n   Halo', 1)).toBe('Halo');
+  });
+});
+
+/* =========================================================
+ *  HTML
+ * =======================================================*/
+
+describe('format html', () => {
+  it('meng-escape HTML sebelum membuat tag', () => {
+    expect(
+      formatReply('<script>alert("x")</script> & **tebal**', 'html', 'id')
+    ).toBe(
+      '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; <strong>tebal</strong></p>'
+    );
+  });
+
+  it('meng-escape atribut di dalam item list', () => {
+    expect(formatReply(`- <img src=x onerror='a'>`, 'html', 'id')).toBe(
+      '<ul><li>&lt;img src=x onerror=&#39;a&#39;&gt;</li>\n</ul>'
+    );
+  });
+
+  it('merender list bernomor, heading & menutup list', () => {
+    expect(
+      formatReply('## Judul\n1. satu\n2. dua\nPenutup', 'html', 'id')
+    ).toBe(
+      '<p><strong>Judul</strong></p>\n<ol><li>satu</li>\n<li>dua</li>\n</ol><p>Penutup</p>'
+    );
+  });
+
+  it('hasil streaming sama dengan non-streaming', () => {
+    const raw = '# Hai\n- a *b*\n- c\n\n3. lanjut\nselesai';
+    const stream = createFormatStream('html', 'id');
+    expect(streamInChunks(raw, 3, stream).trim()).toBe(
+      formatReply(raw, 'html', 'id')
+    );
+  });
+});
+
+/* =========================================================
+ *  SPEECH
+ * =======================================================*/
+
+describe('format speech', () => {
+  it('mengubah list bernomor jadi ordinal & membuang emoji', () => {
+    const raw = 'Coba ini 🌱:\n1. tarik napas\n2. **minum** air';
+    expect(formatReply(raw, 'speech', 'id')).toBe(
+      'Coba ini :\nPertama, tarik napas.\nKedua, minum air.'
+    );
+  });
+
+  it('memakai ordinal sesuai locale', () => {
+    expect(formatReply('1. breathe', 'speech', 'en')).toBe('First, breathe.');
+  });
+
+  it('membuang emoji ZWJ & bendera tanpa sisa', () => {
+    expect(formatReply('Keluarga 👨‍👩‍👧 dan 🇮🇩 ❤️', 'speech', 'id')).toBe(
+      'Keluarga dan.'
+    );
+  });
+});
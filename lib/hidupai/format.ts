@@ -0,0 +1,408 @@
+// File: lib/hidupai/format.ts
+
+import type { Locale } from './i18n';
+
+/* =========================================================
+ *  FORMAT JAWABAN — plain / markdown / html / speech
+ * =======================================================*/
+
+// plain  : teks polos (default; WhatsApp bot & client lama)
+// markdown: Markdown ringan untuk client yang bisa render rich text
+// html   : Markdown yang sama, dirender server jadi HTML aman
+// speech : teks lisan untuk fitur suara (tanpa list, simbol, emoji)
+export const RESPONSE_FORMATS = [
+  'plain',
+  'markdown',
+  'html',
+  'speech',
+] as const;
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+export const DEFAULT_RESPONSE_FORMAT: ResponseFormat = 'plain';
+
+export const isResponseFormat = (value: unknown): value is ResponseFormat =>
+  (RESPONSE_FORMATS as readonly unknown[]).includes(value);
+
+export interface FormatStream {
+  push(chunk: string): string;
+  flush(): string;
+}
+
+const BULLET_LINE = /^\s*[-*•]\s+(.*)$/;
+const NUMBERED_LINE = /^\s*(\d{1,3})[.)]\s+(.*)$/;
+const HEADING_LINE = /^\s*#{1,6}\s+(.*)$/;
+
+/* =========================================================
+ *  PLAIN — juga bentuk kanonik yang disimpan
+ * =======================================================*/
+
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/\*\*(.*?)\*\*/g, '$1')
+    .replace(/\*(.*?)\*/g, '$1')
+    // [ \t], bukan \s: baris kosong sebelum list jangan ikut termakan
+    .replace(/^[ \t]*-[ \t]+/gm, '• ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Bentuk kanonik jawaban untuk last_response, thread & memori:
+ * teks polos dari output mentah model, apa pun format yang diminta
+ * client. Jadi konteks "percakapan terakhir" selalu seragam.
+ */
+export const canonicalReply = (raw: string): string => stripMarkdown(raw);
+
+/**
+ * Versi incremental dari stripMarkdown untuk mode streaming.
+ * Teks ditahan sampai aman diproses (kepala baris sudah jelas,
+ * tanda * sudah berpasangan), lalu dikirim potong per potong.
+ */
+export function createMarkdownStreamStripper(): FormatStream {
+  let pending = '';
+  let lineStarted = false;
+  let inCodeBlock = false;
+  let started = false;
+  let pendingBreaks = 0;
+
+  const inline = (text: string) =>
+    text.replace(/\*\*(.*?)\*\*/g, '$1').replace(/\*(.*?)\*/g, '$1');
+
+  const emit = (text: string): string => {
+    if (!started) {
+      text = text.trimStart();
+      if (!text) return '';
+      started = true;
+      pendingBreaks = 0;
+    }
+    if (!text) return '';
+    const out = '\n'.repeat(pendingBreaks) + text;
+    pendingBreaks = 0;
+    return out;
+  };
+
+  const finishLine = (line: string): string => {
+    if (!lineStarted) {
+      if (line.trimStart().startsWith('```')) {
+        inCodeBlock = !inCodeBlock;
+        return '';
+      }
+      if (inCodeBlock) return '';
+      line = line.replace(/^\s*-\s+/, '• ');
+    }
+    lineStarted = false;
+
+    const out = emit(inline(line).replace(/[ \t]+$/, ''));
+    if (started) pendingBreaks++;
+    return out;
+  };
+
+  const flushPartial = (): string => {
+    if (inCodeBlock) return '';
+
+    if (!lineStarted) {
+      const head = pending.trimStart();
+      if (head.length < 3 || head.startsWith('```')) return '';
+      pending = pending.replace(/^\s*-\s+/, '• ');
+      lineStarted = true;
+    }
+
+    // Potong di awal spasi terakhir yang jumlah * sebelumnya genap
+    let cut = -1;
+    let stars = 0;
+    for (let i = 0; i < pending.length; i++) {
+      const ch = pending[i];
+      if (ch === '*') stars++;
+      else if (ch === ' ' && stars % 2 === 0 && pending[i - 1] !== ' ') {
+        cut = i;
+      }
+    }
+    if (cut <= 0) return '';
+
+    const piece = pending.slice(0, cut);
+    pending = pending.slice(cut);
+    return emit(inline(piece));
+  };
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+      let out = '';
+      let nl = pending.indexOf('\n');
+      while (nl !== -1) {
+        out += finishLine(pending.slice(0, nl));
+        pending = pending.slice(nl + 1);
+        nl = pending.indexOf('\n');
+      }
+      return out + flushPartial();
+    },
+    flush(): string {
+      const out = pending ? finishLine(pending) : '';
+      pending = '';
+      return out;
+    },
+  };
+}
+
+/* =========================================================
+ *  MARKDOWN — diteruskan apa adanya, cukup dirapikan
+ * =======================================================*/
+
+function tidyMarkdown(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Client merender Markdown parsial sendiri, jadi token langsung
+// diteruskan; hanya spasi/baris kosong di awal yang dibuang
+function createMarkdownPassthrough(): FormatStream {
+  let started = false;
+  return {
+    push(chunk: string): string {
+      if (started) return chunk;
+      const text = chunk.trimStart();
+      if (text) started = true;
+      return text;
+    },
+    flush: () => '',
+  };
+}
+
+/* =========================================================
+ *  RENDER PER BARIS — dipakai html & speech
+ * =======================================================*/
+
+interface LineRenderer {
+  line(line: string): string;
+  end(): string;
+}
+
+/**
+ * Tahan token sampai satu baris utuh, lalu render. Dipakai format
+ * yang butuh konteks baris (list HTML, kalimat lisan); latensinya
+ * per baris, bukan per token.
+ */
+function createLineStream(renderer: LineRenderer): FormatStream {
+  let pending = '';
+  let inCodeBlock = false;
+  let started = false;
+
+  const emit = (text: string): string => {
+    if (!text) return '';
+    const out = started ? `\n${text}` : text;
+    started = true;
+    return out;
+  };
+
+  const renderLine = (line: string): string => {
+    if (line.trimStart().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      return '';
+    }
+    return inCodeBlock ? '' : emit(renderer.line(line));
+  };
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+      let out = '';
+      let nl = pending.indexOf('\n');
+      while (nl !== -1) {
+        out += renderLine(pending.slice(0, nl));
+        pending = pending.slice(nl + 1);
+        nl = pending.indexOf('\n');
+      }
+      return out;
+    },
+    flush(): string {
+      const out = (pending ? renderLine(pending) : '') + emit(renderer.end());
+      pending = '';
+      return out;
+    },
+  };
+}
+
+/* =========================================================
+ *  HTML — escape dulu, baru tag dari Markdown ringan
+ * =======================================================*/
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+
+// Emoji & teks lain tidak disentuh; hanya ** * ` yang jadi tag
+const inlineHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '<em>$1</em>')
+    .replace(/`([^`]+)`/g, '<code>$1</code>');
+
+function createHtmlRenderer(): LineRenderer {
+  let list: 'ul' | 'ol' | null = null;
+
+  const closeList = () => {
+    const out = list ? `</${list}>` : '';
+    list = null;
+    return out;
+  };
+
+  return {
+    line(line: string): string {
+      const bullet = BULLET_LINE.exec(line);
+      const numbered = bullet ? null : NUMBERED_LINE.exec(line);
+      const kind = bullet ? 'ul' : numbered ? 'ol' : null;
+
+      let out = list && list !== kind ? closeList() : '';
+      if (!line.trim()) return out;
+
+      if (kind) {
+        if (!list) {
+          // Nomor lanjutan setelah paragraf sisipan tetap urut
+          const start = numbered && numbered[1] !== '1' ? numbered[1] : null;
+          out += start ? `<ol start="${Number(start)}">` : `<${kind}>`;
+          list = kind;
+        }
+        const item = (bullet?.[1] ?? numbered?.[2] ?? '').trim();
+        return `${out}<li>${inlineHtml(item)}</li>`;
+      }
+
+      const heading = HEADING_LINE.exec(line);
+      if (heading) {
+        const title = inlineHtml(heading[1].trim());
+        return `${out}<p><strong>${title}</strong></p>`;
+      }
+      return `${out}<p>${inlineHtml(line.trim())}</p>`;
+    },
+    end: closeList,
+  };
+}
+
+/* =========================================================
+ *  SPEECH — kalimat lisan untuk TTS
+ * =======================================================*/
+
+const ORDINALS: Record<Locale, string[]> = {
+  id: [
+    'Pertama',
+    'Kedua',
+    'Ketiga',
+    'Keempat',
+    'Kelima',
+    'Keenam',
+    'Ketujuh',
+    'Kedelapan',
+    'Kesembilan',
+    'Kesepuluh',
+  ],
+  en: [
+    'First',
+    'Second',
+    'Third',
+    'Fourth',
+    'Fifth',
+    'Sixth',
+    'Seventh',
+    'Eighth',
+    'Ninth',
+    'Tenth',
+  ],
+  ms: [
+    'Pertama',
+    'Kedua',
+    'Ketiga',
+    'Keempat',
+    'Kelima',
+    'Keenam',
+    'Ketujuh',
+    'Kelapan',
+    'Kesembilan',
+    'Kesepuluh',
+  ],
+};
+
+// Emoji utuh (termasuk ZWJ sequence, skin tone, keycap & bendera)
+// dibuang per code point dengan flag u, jadi tidak ada surrogate
+// yang tertinggal setengah
+const EMOJI_PATTERN =
+  /[\p{Extended_Pictographic}\p{Regional_Indicator}\u{1F3FB}-\u{1F3FF}\u200D\uFE0F\u20E3]/gu;
+
+const speakable = (text: string) =>
+  text
+    .replace(EMOJI_PATTERN, '')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/\*(\S(?:.*?\S)?)\*/g, '$1')
+    .replace(/^\s*>\s*/, '')
+    .replace(/[`*_#~|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Tiap baris jadi kalimat utuh supaya jeda TTS terdengar wajar
+const asSentence = (text: string) =>
+  !text || /[.!?…:;]$/.test(text) ? text : `${text}.`;
+
+function createSpeechRenderer(locale: Locale): LineRenderer {
+  const ordinals = ORDINALS[locale] || ORDINALS.id;
+
+  return {
+    line(line: string): string {
+      const numbered = NUMBERED_LINE.exec(line);
+      if (numbered) {
+        const step = asSentence(speakable(numbered[2]));
+        if (!step) return '';
+        const n = Number(numbered[1]);
+        const ordinal = ordinals[n - 1];
+        return ordinal ? `${ordinal}, ${step}` : `${n}. ${step}`;
+      }
+
+      const bullet = BULLET_LINE.exec(line);
+      const heading = HEADING_LINE.exec(line);
+      return asSentence(speakable(bullet?.[1] ?? heading?.[1] ?? line));
+    },
+    end: () => '',
+  };
+}
+
+/* =========================================================
+ *  ENTRY POINT — dipakai /api/chat (biasa & streaming)
+ * =======================================================*/
+
+/** Konverter incremental sesuai format untuk mode streaming. */
+export function createFormatStream(
+  format: ResponseFormat,
+  locale: Locale
+): FormatStream {
+  switch (format) {
+    case 'markdown':
+      return createMarkdownPassthrough();
+    case 'html':
+      return createLineStream(createHtmlRenderer());
+    case 'speech':
+      return createLineStream(createSpeechRenderer(locale));
+    default:
+      return createMarkdownStreamStripper();
+  }
+}
+
+/** Ubah output mentah model ke format yang diminta client. */
+export function formatReply(
+  raw: string,
+  format: ResponseFormat,
+  locale: Locale
+): string {
+  if (format === 'plain') return stripMarkdown(raw);
+  if (format === 'markdown') return tidyMarkdown(raw);
+
+  const stream = createFormatStream(format, locale);
+  return (stream.push(raw) + stream.flush()).trim();
+}
@@ -0,0 +1,246 @@
+// File: lib/hidupai/goals.ts
+
+import { createLogger } from './log';
+import { screenMemoryText } from './screening';
+import { supabase } from './supabase';
+import { isoWeek, wibDate } from './week';
+
+const log = createLogger('goals');
+
+/* =========================================================
+ *  GOALS — tujuan mingguan terstruktur + milestone
+ * =======================================================*/
+
+export const GOAL_STATUSES = ['active', 'done', 'dropped'] as const;
+export type GoalStatus = (typeof GOAL_STATUSES)[number];
+
+export interface Milestone {
+  title: string;
+  done: boolean;
+  done_at: string | null;
+}
+
+export interface Goal {
+  id: string;
+  week: string;
+  title: string;
+  status: GoalStatus;
+  target_date: string | null;
+  milestones: Milestone[];
+  progress_note: string | null;
+  last_progress_at: string | null;
+  created_at: string;
+}
+
+export const GOAL_COLUMNS =
+  'id, week, title, status, target_date, milestones, progress_note, last_progress_at, created_at';
+
+export const MAX_GOALS_PER_WEEK = 5;
+const MAX_GOAL_TITLE_LENGTH = 200;
+const MAX_MILESTONES = 10;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const GOAL_TEXT_FLAGGED =
+  'teks goal terlihat seperti instruksi untuk AI, tolong tulis ulang ya';
+
+export interface GoalInput {
+  title?: string;
+  status?: string;
+  targetDate?: string | null;
+  // String = milestone baru (belum selesai)
+  milestones?: (string | Partial<Milestone>)[];
+}
+
+/**
+ * Validasi input goal (POST / PATCH). Mengembalikan daftar error,
+ * kosong = valid. `partial` = PATCH, field boleh tidak ada.
+ */
+export function validateGoalInput(input: unknown, partial = false): string[] {
+  const errors: string[] = [];
+  const goal = input as GoalInput | null;
+
+  if (!goal || typeof goal !== 'object') return ['body harus object'];
+
+  if (goal.title !== undefined || !partial) {
+    if (
+      typeof goal.title !== 'string' ||
+      !goal.title.trim() ||
+      goal.title.length > MAX_GOAL_TITLE_LENGTH
+    ) {
+      errors.push(`title wajib diisi (maks ${MAX_GOAL_TITLE_LENGTH} karakter)`);
+    }
+  }
+  if (
+    goal.status !== undefined &&
+    !(GOAL_STATUSES as readonly string[]).includes(goal.status)
+  ) {
+    errors.push(`status harus salah satu dari: ${GOAL_STATUSES.join(', ')}`);
+  }
+  if (
+    goal.targetDate !== undefined &&
+    goal.targetDate !== null &&
+    (typeof goal.targetDate !== 'string' ||
+      !DATE_PATTERN.test(goal.targetDate) ||
+      Number.isNaN(Date.parse(goal.targetDate)))
+  ) {
+    errors.push('targetDate harus format YYYY-MM-DD');
+  }
+  if (goal.milestones !== undefined) {
+    const valid =
+      Array.isArray(goal.milestones) &&
+      goal.milestones.length <= MAX_MILESTONES &&
+      goal.milestones.every((m) =>
+        typeof m === 'string'
+          ? !!m.trim()
+          : !!m &&
+            typeof m === 'object' &&
+            typeof m.title === 'string' &&
+            !!m.title.trim() &&
+            (m.done === undefined || typeof m.done === 'boolean')
+      );
+    if (!valid) {
+      errors.push(
+        `milestones harus array (maks ${MAX_MILESTONES}) berisi string atau { title, done? }`
+      );
+    }
+  }
+
+  // Judul & milestone ikut prompt chat/cron: tolak yang mirip instruksi
+  // di awal, jangan sampai tersimpan lalu dibaca model
+  if (!errors.length) {
+    const texts = [
+      goal.title ?? '',
+      ...(goal.milestones || []).map((m) =>
+        typeof m === 'string' ? m : m.title || ''
+      ),
+    ];
+    if (texts.some((text) => screenMemoryText(text).flagged)) {
+      errors.push(GOAL_TEXT_FLAGGED);
+    }
+  }
+
+  return errors;
+}
+
+/** Normalisasi milestone dari input, pertahankan done_at yang lama. */
+export function normalizeMilestones(
+  input: (string | Partial<Milestone>)[],
+  previous: Milestone[] = []
+): Milestone[] {
+  return input.map((m, i) => {
+    const title = (typeof m === 'string' ? m : m.title || '').trim();
+    const done = typeof m === 'string' ? false : Boolean(m.done);
+    const prev = previous[i];
+    return {
+      title,
+      done,
+      done_at: done
+        ? prev?.done && prev.done_at
+          ? prev.done_at
+          : new Date().toISOString()
+        : null,
+    };
+  });
+}
+
+/**
+ * Goal yang relevan sekarang: semua goal minggu berjalan, ditambah
+ * goal aktif dari minggu lain yang target tanggalnya belum lewat.
+ */
+export async function loadCurrentGoals(userId: string): Promise<Goal[]> {
+  const now = new Date();
+  const week = isoWeek(now).key;
+
+  const { data, error } = await supabase
+    .from('goals')
+    .select(GOAL_COLUMNS)
+    .eq('user_id', userId)
+    .or(
+      `week.eq.${week},and(status.eq.active,target_date.gte.${wibDate(now)})`
+    )
+    .order('created_at', { ascending: true })
+    .limit(MAX_GOALS_PER_WEEK * 2);
+
+  if (error) {
+    log.error('load error', { err: error });
+    return [];
+  }
+  return (data || []) as unknown as Goal[];
+}
+
+/** Ringkasan teks untuk cron / konteks non-prompt. */
+export const goalTitles = (goals: Goal[]) =>
+  goals
+    .filter((g) => g.status !== 'dropped')
+    .map((g) => g.title)
+    .join('; ');
+
+/* =========================================================
+ *  PROGRES DARI CHAT
+ * =======================================================*/
+
+export interface GoalProgressUpdate {
+  goalIndex: number; // 0-based sesuai urutan formatGoals di prompt
+  note?: string;
+  milestoneIndexes: number[];
+  done: boolean;
+}
+
+/**
+ * Terapkan update progres ke tabel goals + goal_progress.
+ * Goal yang sudah done/dropped tidak diubah lagi. `idempotencyKey`
+ * mencegah log progres ganda saat job di-retry.
+ */
+export async function applyGoalProgress(
+  userId: string,
+  goals: Goal[],
+  updates: GoalProgressUpdate[],
+  idempotencyKey?: string
+) {
+  for (const update of updates) {
+    const goal = goals[update.goalIndex];
+    if (!goal || goal.status !== 'active') continue;
+
+    const now = new Date().toISOString();
+    const milestones = goal.milestones.map((m, i) =>
+      update.milestoneIndexes.includes(i) && !m.done
+        ? { ...m, done: true, done_at: now }
+        : m
+    );
+    const changed: Record<string, unknown> = {
+      milestones,
+      updated_at: now,
+    };
+    if (update.note) {
+      changed.progress_note = update.note;
+      changed.last_progress_at = now;
+    }
+    if (update.done) changed.status = 'done';
+
+    const { error } = await supabase
+      .from('goals')
+      .update(changed)
+      .eq('id', goal.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      log.error('progress update error', { err: error });
+      continue;
+    }
+
+    if (update.note) {
+      await supabase.from('goal_progress').upsert(
+        {
+          goal_id: goal.id,
+          user_id: userId,
+          note: update.note,
+          source: 'chat',
+          idempotency_key: idempotencyKey
+            ? `${idempotencyKey}:goal:${goal.id}`
+            : null,
+        },
+        { onConflict: 'idempotency_key', ignoreDuplicates: true }
+      );
+    }
+  }
+}
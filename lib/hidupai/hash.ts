@@ -0,0 +1,12 @@
+// File: lib/hidupai/hash.ts
+
+/** SHA-256 hex lewat Web Crypto (jalan di Node maupun Edge runtime). */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,213 @@
+// File: lib/hidupai/i18n.ts
+
+/* =========================================================
+ *  I18N — locale & katalog pesan (fallback ke Indonesia)
+ * =======================================================*/
+
+export type Locale = 'id' | 'en' | 'ms';
+
+export const DEFAULT_LOCALE: Locale = 'id';
+export const SUPPORTED_LOCALES: Locale[] = ['id', 'en', 'ms'];
+
+/**
+ * Ambil locale pertama yang didukung dari kandidat (body, user row,
+ * Accept-Language). "en-US" → "en", "ms-MY" → "ms".
+ */
+export function resolveLocale(
+  ...candidates: (string | null | undefined)[]
+): Locale {
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    for (const part of candidate.split(',')) {
+      const base = part.trim().split(/[-_;]/)[0].toLowerCase();
+      if ((SUPPORTED_LOCALES as string[]).includes(base)) return base as Locale;
+    }
+  }
+  return DEFAULT_LOCALE;
+}
+
+const MESSAGES_ID = {
+  'error.invalid_request': 'Request tidak valid, cek field yang salah',
+  'error.invalid_json': 'Body request harus JSON yang valid',
+  'error.account_not_found': 'Akun tidak ditemukan',
+  'error.access_denied': 'Akses tidak sah 🔒',
+  'error.unknown_mode': 'Mode "{mode}" tidak dikenal',
+  'error.conversation_not_found': 'Percakapan tidak ditemukan',
+  'error.quota_exceeded':
+    'Batas penggunaan harian ({limit}x) sudah tercapai 😅\nCoba lagi besok ya! 🚀',
+  'error.model_unavailable':
+    'Mesin berpikir HidupAI sedang gangguan 😵 Coba sebentar lagi ya.',
+  'error.internal':
+    'HidupAI lagi error internal 😥 Coba beberapa saat lagi ya.',
+
+  'mode.premium_required': 'Mode personal khusus untuk pengguna premium ✨',
+  'mode.invalid': 'Definisi mode tidak valid',
+  'mode.id_taken': 'Id "{mode}" sudah dipakai mode bawaan',
+  'mode.limit_reached': 'Maksimal {limit} mode personal',
+  'mode.exists': 'Mode "{mode}" sudah ada',
+  'mode.save_failed': 'Gagal menyimpan mode 😥',
+  'mode.delete_failed': 'Gagal menghapus mode 😥',
+  'mode.not_found': 'Mode personal tidak ditemukan',
+
+  'auth.TOKEN_MISSING': 'Token tidak ditemukan',
+  'auth.TOKEN_MALFORMED': 'Token tidak valid',
+  'auth.TOKEN_ALG_UNSUPPORTED': 'Algoritma token tidak didukung',
+  'auth.TOKEN_KEY_NOT_FOUND': 'Kunci token tidak dikenali',
+  'auth.TOKEN_SIGNATURE_INVALID': 'Tanda tangan token tidak valid 🔒',
+  'auth.TOKEN_EXPIRED': 'Sesi sudah berakhir, silakan login ulang',
+  'auth.TOKEN_NOT_YET_VALID': 'Token belum berlaku',
+  'auth.TOKEN_ISSUER_INVALID': 'Penerbit token tidak dikenali',
+  'auth.TOKEN_AUDIENCE_INVALID': 'Token bukan untuk layanan ini',
+  'auth.TOKEN_SUBJECT_MISSING': 'Token tidak memiliki identitas user',
+
+  // Teks krisis tetap, sudah direview — jangan diganti tanpa review ulang
+  'crisis.suicide': `Aku dengar kamu, dan aku senang kamu mau cerita. Yang kamu rasakan sekarang itu berat sekali, dan kamu tidak harus menanggungnya sendirian.
+
+Keselamatanmu yang paling penting saat ini. Tolong hubungi salah satu dari ini sekarang juga:
+1) Layanan darurat: 112
+2) Layanan kesehatan jiwa Kemenkes (SEJIWA): 119 ext 8
+3) Datang ke IGD rumah sakit terdekat
+
+Kalau bisa, kabari juga satu orang yang kamu percaya dan minta dia menemanimu. 🤍`,
+  'crisis.self_harm': `Terima kasih sudah jujur cerita. Melukai diri biasanya tanda ada rasa sakit yang sangat besar, dan kamu layak dapat bantuan yang nyata.
+
+Tolong hubungi salah satu dari ini:
+1) Layanan kesehatan jiwa Kemenkes (SEJIWA): 119 ext 8
+2) Layanan darurat: 112, atau IGD terdekat kalau ada luka
+
+Kalau bisa, jauhkan dulu benda yang bisa melukai dan temui orang yang kamu percaya. 🤍`,
+  'crisis.abuse': `Aku dengar kamu, dan yang kamu alami itu tidak benar. Itu bukan salahmu.
+
+Kamu bisa minta perlindungan dan pendampingan di:
+1) SAPA 129 (KemenPPPA): telepon 129 atau WhatsApp 08111-129-129
+2) Layanan darurat: 112 kalau kamu dalam bahaya sekarang
+
+Kalau aman, cari tempat dan orang yang bisa melindungimu. 🤍`,
+};
+
+export type MessageKey = keyof typeof MESSAGES_ID;
+
+const MESSAGES: Record<Locale, Partial<Record<MessageKey, string>>> = {
+  id: MESSAGES_ID,
+  en: {
+    'error.invalid_request': 'Invalid request, check the failing fields',
+    'error.invalid_json': 'Request body must be valid JSON',
+    'error.account_not_found': 'Account not found',
+    'error.access_denied': 'Unauthorized access 🔒',
+    'error.unknown_mode': 'Unknown mode "{mode}"',
+    'error.conversation_not_found': 'Conversation not found',
+    'error.quota_exceeded':
+      'You have reached your daily limit ({limit}x) 😅\nPlease try again tomorrow! 🚀',
+    'error.model_unavailable':
+      "HidupAI's thinking engine is having trouble 😵 Please try again shortly.",
+    'error.internal':
+      'HidupAI hit an internal error 😥 Please try again in a moment.',
+
+    'mode.premium_required': 'Personal modes are for premium users ✨',
+    'mode.invalid': 'Invalid mode definition',
+    'mode.id_taken': 'Id "{mode}" is already used by a built-in mode',
+    'mode.limit_reached': 'You can have at most {limit} personal modes',
+    'mode.exists': 'Mode "{mode}" already exists',
+    'mode.save_failed': 'Failed to save the mode 😥',
+    'mode.delete_failed': 'Failed to delete the mode 😥',
+    'mode.not_found': 'Personal mode not found',
+
+    'auth.TOKEN_MISSING': 'Token not found',
+    'auth.TOKEN_MALFORMED': 'Invalid token',
+    'auth.TOKEN_ALG_UNSUPPORTED': 'Unsupported token algorithm',
+    'auth.TOKEN_KEY_NOT_FOUND': 'Unknown token key',
+    'auth.TOKEN_SIGNATURE_INVALID': 'Invalid token signature 🔒',
+    'auth.TOKEN_EXPIRED': 'Your session has expired, please log in again',
+    'auth.TOKEN_NOT_YET_VALID': 'Token is not valid yet',
+    'auth.TOKEN_ISSUER_INVALID': 'Unknown token issuer',
+    'auth.TOKEN_AUDIENCE_INVALID': 'Token is not meant for this service',
+    'auth.TOKEN_SUBJECT_MISSING': 'Token has no user identity',
+
+    'crisis.suicide': `I hear you, and I'm glad you told me. What you're feeling right now is very heavy, and you don't have to carry it alone.
+
+Your safety matters most right now. Please reach out to one of these now:
+1) Your local emergency number (112 in Indonesia, 999 in Malaysia)
+2) A crisis line in your country: findahelpline.com
+3) The emergency room of the nearest hospital
+
+If you can, let one person you trust know and ask them to stay with you. 🤍`,
+    'crisis.self_harm': `Thank you for being honest with me. Hurting yourself is often a sign of very deep pain, and you deserve real help.
+
+Please reach out to one of these:
+1) A crisis line in your country: findahelpline.com
+2) Your local emergency number, or the nearest emergency room if you are injured
+
+If you can, put away anything you could hurt yourself with and be with someone you trust. 🤍`,
+    'crisis.abuse': `I hear you, and what is happening to you is not okay. It is not your fault.
+
+You can ask for protection and support:
+1) Your local emergency number if you are in danger right now
+2) A support line in your country: findahelpline.com
+
+If it is safe, go to a place and a person who can protect you. 🤍`,
+  },
+  ms: {
+    'error.invalid_request': 'Permintaan tidak sah, semak medan yang salah',
+    'error.invalid_json': 'Badan permintaan mesti JSON yang sah',
+    'error.account_not_found': 'Akaun tidak dijumpai',
+    'error.access_denied': 'Akses tidak sah 🔒',
+    'error.unknown_mode': 'Mod "{mode}" tidak dikenali',
+    'error.conversation_not_found': 'Perbualan tidak dijumpai',
+    'error.quota_exceeded':
+      'Had penggunaan harian ({limit}x) sudah dicapai 😅\nCuba lagi esok ya! 🚀',
+    'error.model_unavailable':
+      'Enjin pemikiran HidupAI sedang terganggu 😵 Cuba sebentar lagi ya.',
+    'error.internal':
+      'HidupAI mengalami ralat dalaman 😥 Cuba sebentar lagi ya.',
+
+    'mode.premium_required': 'Mod peribadi khas untuk pengguna premium ✨',
+    'mode.invalid': 'Definisi mod tidak sah',
+    'mode.id_taken': 'Id "{mode}" sudah digunakan oleh mod terbina',
+    'mode.limit_reached': 'Maksimum {limit} mod peribadi',
+    'mode.exists': 'Mod "{mode}" sudah wujud',
+    'mode.save_failed': 'Gagal menyimpan mod 😥',
+    'mode.delete_failed': 'Gagal memadam mod 😥',
+    'mode.not_found': 'Mod peribadi tidak dijumpai',
+
+    'auth.TOKEN_MISSING': 'Token tidak dijumpai',
+    'auth.TOKEN_EXPIRED': 'Sesi telah tamat, sila log masuk semula',
+
+    'crisis.suicide': `Saya dengar awak, dan saya gembira awak sudi bercerita. Apa yang awak rasa sekarang sangat berat, dan awak tidak perlu menanggungnya seorang diri.
+
+Keselamatan awak paling penting sekarang. Tolong hubungi salah satu daripada ini sekarang juga:
+1) Talian kecemasan: 999
+2) Befrienders KL: 03-7627 2929
+3) Talian HEAL (KKM): 15555
+
+Jika boleh, beritahu seorang yang awak percaya dan minta dia temankan awak. 🤍`,
+    'crisis.self_harm': `Terima kasih kerana jujur bercerita. Mencederakan diri selalunya tanda ada kesakitan yang sangat besar, dan awak layak mendapat bantuan yang sebenar.
+
+Tolong hubungi salah satu daripada ini:
+1) Befrienders KL: 03-7627 2929
+2) Talian kecemasan: 999, atau jabatan kecemasan terdekat jika ada luka
+
+Jika boleh, jauhkan dahulu benda yang boleh mencederakan dan bersama orang yang awak percaya. 🤍`,
+    'crisis.abuse': `Saya dengar awak, dan apa yang awak alami itu tidak betul. Itu bukan salah awak.
+
+Awak boleh dapatkan perlindungan dan sokongan di:
+1) Talian Kasih: 15999 atau WhatsApp 019-261 5999
+2) Talian kecemasan: 999 jika awak dalam bahaya sekarang
+
+Jika selamat, pergi ke tempat dan orang yang boleh melindungi awak. 🤍`,
+  },
+};
+
+/**
+ * Terjemahkan key ke locale, isi placeholder {var}.
+ * Key yang belum diterjemahkan jatuh ke bahasa Indonesia.
+ */
+export function t(
+  locale: Locale,
+  key: MessageKey,
+  vars: Record<string, string | number> = {}
+): string {
+  const template = MESSAGES[locale]?.[key] ?? MESSAGES_ID[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in vars ? String(vars[name]) : match
+  );
+}
@@ -0,0 +1,84 @@
+// File: lib/hidupai/jobs.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from './testing';
+
+// Provider dibaca saat module di-load: ekstraksi & embedding lewat mock
+vi.hoisted(() => {
+  process.env.AI_PROVIDER = 'mock';
+});
+
+vi.mock('./supabase', async () => {
+  const { createFakeSupabase } = await import('./testing');
+  return { supabase: createFakeSupabase() };
+});
+vi.mock('./goals', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./goals')>()),
+  loadCurrentGoals: async () => [],
+}));
+
+import { enqueueMemoryJob, processMemoryJob } from './jobs';
+import { supabase } from './supabase';
+
+const db = supabase as unknown as FakeSupabase;
+
+const REPLY = 'Pelan-pelan ya, satu langkah kecil dulu sudah cukup kok.';
+
+const turn = (lastUserMessage: string, messageId?: string) => ({
+  userId: 'budi',
+  payload: {
+    name: 'Budi',
+    locale: 'id',
+    lastUserMessage,
+    aiMessage: REPLY,
+    messageId,
+  },
+});
+
+const summaryLines = () =>
+  String(db.table('users')[0].long_term_memory ?? '')
+    .split('\n')
+    .filter(Boolean);
+
+describe('memory jobs', () => {
+  beforeEach(() => {
+    db.tables.clear();
+    db.rpcs.clear();
+    db.seed('users', [{ id: 'budi', long_term_memory: null }]);
+
+    // Sama dengan migrasi append_long_term_memory
+    db.rpcs.set('append_long_term_memory', ({ p_user_id, p_line }) => {
+      const user = db.table('users').find((u) => u.id === p_user_id)!;
+      const lines = String(user.long_term_memory ?? '')
+        .split('\n')
+        .filter(Boolean);
+      if (!lines.includes(p_line as string)) lines.push(p_line as string);
+      user.long_term_memory = lines.join('\n');
+      return { data: user.long_term_memory, error: null };
+    });
+  });
+
+  it('giliran dengan teks kembar tetap jadi job terpisah', async () => {
+    const first = await enqueueMemoryJob(turn('Aku capek', 'msg-1'));
+    const second = await enqueueMemoryJob(turn('Aku capek', 'msg-2'));
+
+    expect(first).not.toBeNull();
+    expect(second).not.toBeNull();
+    expect(db.table('memory_jobs')).toHaveLength(2);
+  });
+
+  it('giliran yang sama hanya masuk sekali', async () => {
+    await enqueueMemoryJob(turn('Aku capek', 'msg-1'));
+    expect(await enqueueMemoryJob(turn('Aku capek', 'msg-1'))).toBeNull();
+    expect(db.table('memory_jobs')).toHaveLength(1);
+  });
+
+  it('retry job tidak menggandakan insight', async () => {
+    const job = (await enqueueMemoryJob(turn('Aku capek', 'msg-1')))!;
+    await processMemoryJob(job);
+    await processMemoryJob({ ...job, attempts: 2 });
+
+    expect(summaryLines()).toHaveLength(1);
+    expect(db.table('long_term_memories')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,459 @@
+// File: lib/hidupai/jobs.ts
+
+import { embeddingColumns, getEmbedding } from './embeddings';
+import { TurnExtraction, extractTurn, shouldExtract } from './extraction';
+import { applyGoalProgress, loadCurrentGoals } from './goals';
+import { sha256Hex } from './hash';
+import { resolveLocale } from './i18n';
+import { createLogger, runWithRequest, span } from './log';
+import {
+  SUMMARY_TOKEN_BUDGET,
+  consolidateLongTermMemory,
+  estimateTokens,
+} from './memory';
+import { quarantineColumns, screenMemoryText } from './screening';
+import { supabase } from './supabase';
+import type { MemoryEmbeddingInsert } from './types';
+
+const log = createLogger('memory jobs');
+
+/* =========================================================
+ *  MEMORY JOBS — outbox + worker dengan retry
+ * =======================================================*/
+
+// Coba proses langsung setelah enqueue; worker cron tetap jadi jaring
+export const MEMORY_JOBS_INLINE = process.env.MEMORY_JOBS_INLINE !== 'false';
+const MAX_ATTEMPTS = Number(process.env.MEMORY_JOB_MAX_ATTEMPTS) || 5;
+const BACKOFF_BASE_SECONDS =
+  Number(process.env.MEMORY_JOB_BACKOFF_SECONDS) || 30;
+const BACKOFF_MAX_SECONDS = 6 * 60 * 60;
+// Job "running" yang lock-nya lewat dianggap mati (fungsi dibekukan)
+const LOCK_SECONDS = Number(process.env.MEMORY_JOB_LOCK_SECONDS) || 120;
+const WORKER_BATCH_SIZE = Number(process.env.MEMORY_JOB_BATCH_SIZE) || 10;
+const WORKER_TIME_BUDGET_MS =
+  Number(process.env.MEMORY_JOB_TIME_BUDGET_MS) || 45_000;
+
+export type MemoryJobStatus = 'pending' | 'running' | 'done' | 'dead';
+
+export interface MemoryJobPayload {
+  name: string;
+  locale: string;
+  lastUserMessage: string;
+  aiMessage: string;
+  // Request chat asal, supaya log & usage job bisa ditelusuri balik
+  requestId?: string;
+  // Pesan jawaban di conversation_messages (kalau pakai thread)
+  messageId?: string;
+}
+
+// Hasil ekstraksi disimpan supaya retry tidak memanggil model lagi
+interface MemoryJobResult {
+  extraction: TurnExtraction;
+  // id goal sesuai urutan saat ekstraksi (goalIndex → id)
+  goalIds: string[];
+}
+
+export interface MemoryJob {
+  id: string;
+  user_id: string;
+  idempotency_key: string;
+  payload: MemoryJobPayload;
+  result: MemoryJobResult | null;
+  status: MemoryJobStatus;
+  attempts: number;
+  max_attempts: number;
+}
+
+const MEMORY_JOB_COLUMNS =
+  'id, user_id, idempotency_key, payload, result, status, attempts, max_attempts';
+
+const lockUntil = () =>
+  new Date(Date.now() + LOCK_SECONDS * 1000).toISOString();
+
+/**
+ * Tulis satu giliran chat ke outbox. Giliran yang sama (id pesan /
+ * request + isi) hanya masuk sekali; dua giliran dengan teks kembar
+ * tetap jadi dua job. Job langsung di-lock untuk pemanggil
+ * (attempts = 1) supaya bisa diproses inline tanpa balapan dengan worker.
+ * null kalau tidak perlu diproses atau sudah pernah masuk.
+ */
+export async function enqueueMemoryJob(params: {
+  userId: string;
+  payload: MemoryJobPayload;
+}): Promise<MemoryJob | null> {
+  const { userId, payload } = params;
+  if (!shouldExtract(payload.lastUserMessage, payload.aiMessage)) return null;
+
+  const turnId = payload.messageId ?? payload.requestId ?? '';
+  const key = await sha256Hex(
+    `${userId}\n${turnId}\n${payload.lastUserMessage}\n${payload.aiMessage}`
+  );
+
+  const { data, error } = await supabase
+    .from('memory_jobs')
+    .upsert(
+      {
+        user_id: userId,
+        idempotency_key: key,
+        payload,
+        status: 'running',
+        attempts: 1,
+        max_attempts: MAX_ATTEMPTS,
+        locked_until: lockUntil(),
+      },
+      { onConflict: 'idempotency_key', ignoreDuplicates: true }
+    )
+    .select(MEMORY_JOB_COLUMNS);
+
+  if (error) {
+    log.error('enqueue error', { err: error });
+    return null;
+  }
+  return ((data || [])[0] as unknown as MemoryJob) ?? null;
+}
+
+/* =========================================================
+ *  LANGKAH-LANGKAH JOB — setiap tulisan punya idempotency key
+ * =======================================================*/
+
+/**
+ * Insert sekali per idempotency key. Kalau baris sudah ada (retry),
+ * kembalikan id yang lama.
+ */
+async function insertOnce(
+  table: string,
+  row: Record<string, unknown> & { idempotency_key: string }
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(table)
+    .upsert(row, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+    .select('id');
+  if (error) throw new Error(`insert ${table} gagal: ${error.message}`);
+
+  const inserted = (data || [])[0] as { id: string } | undefined;
+  if (inserted) return inserted.id;
+
+  const { data: existing } = await supabase
+    .from(table)
+    .select('id')
+    .eq('idempotency_key', row.idempotency_key)
+    .maybeSingle();
+  return (existing as { id: string } | null)?.id ?? null;
+}
+
+/** Embedding dihitung hanya kalau barisnya belum ada. */
+async function embedOnce(
+  row: Pick<
+    MemoryEmbeddingInsert,
+    | 'user_id'
+    | 'source_type'
+    | 'source_id'
+    | 'content'
+    | 'quarantined'
+    | 'quarantine_reason'
+  >,
+  idempotencyKey: string
+) {
+  const { data: existing } = await supabase
+    .from('memory_embeddings')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle();
+  if (existing) return;
+
+  const embedding = await getEmbedding(row.content);
+  if (!embedding) return;
+
+  await insertOnce('memory_embeddings', {
+    ...row,
+    ...embeddingColumns(embedding),
+    idempotency_key: idempotencyKey,
+  } satisfies MemoryEmbeddingInsert & { idempotency_key: string });
+}
+
+async function loadExtraction(job: MemoryJob): Promise<MemoryJobResult> {
+  if (job.result) return job.result;
+
+  const { name, locale, lastUserMessage, aiMessage } = job.payload;
+  const [{ data: user }, goals] = await Promise.all([
+    supabase
+      .from('users')
+      .select('long_term_memory')
+      .eq('id', job.user_id)
+      .maybeSingle(),
+    loadCurrentGoals(job.user_id),
+  ]);
+
+  const extraction = await span(
+    'memory_job.extraction',
+    () =>
+      extractTurn({
+        name,
+        locale: resolveLocale(locale),
+        memorySummary: (user?.long_term_memory as string | null) || '',
+        goals,
+        userMsg: lastUserMessage,
+        aiMsg: aiMessage,
+      }),
+    { jobId: job.id, attempt: job.attempts }
+  );
+  if (!extraction) throw new Error('ekstraksi gagal / output tidak valid');
+
+  const result = { extraction, goalIds: goals.map((g) => g.id) };
+  await supabase
+    .from('memory_jobs')
+    .update({ result, updated_at: new Date().toISOString() })
+    .eq('id', job.id);
+
+  return result;
+}
+
+async function runJobSteps(job: MemoryJob) {
+  const { user_id: userId, id: jobId } = job;
+  const { name, locale, lastUserMessage, aiMessage } = job.payload;
+  const { extraction, goalIds } = await loadExtraction(job);
+  const { importance, emotion } = extraction;
+
+  // 1) Insight → tabel long_term_memories + summary users
+  if (extraction.insight) {
+    const insight = `- ${extraction.insight}`;
+    // Insight yang terlihat seperti instruksi tetap disimpan untuk
+    // review, tapi tidak ikut summary / retrieval
+    const screening = screenMemoryText(insight);
+    if (screening.flagged) {
+      log.warn('insight dikarantina', { jobId, reasons: screening.reasons });
+    }
+
+    const insightId = await insertOnce('long_term_memories', {
+      user_id: userId,
+      content: insight,
+      importance,
+      ...quarantineColumns(screening),
+      idempotency_key: `${jobId}:insight`,
+    });
+
+    // Embedding insight (source_id dipakai untuk edit/forget)
+    if (insightId) {
+      await embedOnce(
+        {
+          user_id: userId,
+          source_type: 'insight',
+          source_id: insightId,
+          content: insight,
+          ...quarantineColumns(screening),
+        },
+        `${jobId}:insight-embedding`
+      );
+    }
+
+    // Append atomik di database (job paralel tidak saling menimpa);
+    // insight yang sudah ada (retry) tidak ditambahkan lagi
+    if (!screening.flagged) {
+      const { data: appended, error } = await supabase.rpc(
+        'append_long_term_memory',
+        { p_user_id: userId, p_line: insight }
+      );
+      if (error) throw new Error(`append summary gagal: ${error.message}`);
+      const updatedSummary = (appended as string | null) || '';
+
+      // Summary kebesaran → konsolidasi (dedupe, resolve kontradiksi).
+      // Ditulis hanya kalau summary belum berubah sejak dibaca; kalau
+      // ada append lain di tengah, job itu yang mengonsolidasi nanti
+      if (estimateTokens(updatedSummary) > SUMMARY_TOKEN_BUDGET) {
+        const consolidated = await consolidateLongTermMemory(
+          name,
+          userId,
+          updatedSummary,
+          resolveLocale(locale)
+        );
+        await supabase
+          .from('users')
+          .update({ long_term_memory: consolidated })
+          .eq('id', userId)
+          .eq('long_term_memory', updatedSummary);
+      }
+    }
+  }
+
+  // 2) Episodic event + embedding
+  if (extraction.episode) {
+    const { summary, tags } = extraction.episode;
+    const episodeScreening = screenMemoryText(`${summary}\n${tags.join(' ')}`);
+    const chatScreening = screenMemoryText(lastUserMessage);
+    if (episodeScreening.flagged || chatScreening.flagged) {
+      log.warn('episode dikarantina', {
+        jobId,
+        reasons: [...episodeScreening.reasons, ...chatScreening.reasons],
+      });
+    }
+
+    const episodicId = await insertOnce('episodic_memories', {
+      user_id: userId,
+      summary,
+      raw_text: `${name}: ${lastUserMessage}\nHidupAI: ${aiMessage}`,
+      tags,
+      importance,
+      emotion,
+      ...quarantineColumns(episodeScreening),
+      idempotency_key: `${jobId}:episodic`,
+    });
+
+    // Embedding chat ditautkan ke episodenya, jadi ikut terhapus /
+    // diperbarui saat episode dilupakan atau diedit
+    await embedOnce(
+      {
+        user_id: userId,
+        source_type: 'chat',
+        source_id: episodicId,
+        content: lastUserMessage,
+        ...quarantineColumns(chatScreening),
+      },
+      `${jobId}:chat-embedding`
+    );
+
+    if (episodicId) {
+      await embedOnce(
+        {
+          user_id: userId,
+          source_type: 'episodic',
+          source_id: episodicId,
+          content: summary,
+          ...quarantineColumns(episodeScreening),
+        },
+        `${jobId}:episodic-embedding`
+      );
+    }
+  }
+
+  // 3) Progres goal mingguan (goalIndex dipetakan ulang lewat id)
+  if (extraction.goalProgress.length) {
+    const goals = await loadCurrentGoals(userId);
+    const updates = extraction.goalProgress
+      .map((update) => ({
+        ...update,
+        goalIndex: goals.findIndex((g) => g.id === goalIds[update.goalIndex]),
+        // Catatan progres ikut prompt check-in; yang mirip instruksi dibuang
+        note:
+          update.note && screenMemoryText(update.note).flagged
+            ? undefined
+            : update.note,
+      }))
+      .filter((update) => update.goalIndex >= 0);
+
+    if (updates.length) {
+      await applyGoalProgress(userId, goals, updates, jobId);
+    }
+  }
+}
+
+/* =========================================================
+ *  EKSEKUSI — sukses, retry dengan backoff, atau dead letter
+ * =======================================================*/
+
+// 30s, 60s, 120s, ... + jitter, maks 6 jam
+function backoffSeconds(attempts: number): number {
+  const base = BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1);
+  const jitter = Math.random() * BACKOFF_BASE_SECONDS;
+  return Math.min(BACKOFF_MAX_SECONDS, Math.round(base + jitter));
+}
+
+/**
+ * Proses satu job yang sudah di-claim. Status hanya ditulis kalau job
+ * masih milik attempt ini (worker lain belum mengambil alih).
+ */
+export async function processMemoryJob(
+  job: MemoryJob
+): Promise<MemoryJobStatus> {
+  const now = new Date();
+  let status: MemoryJobStatus;
+  let update: Record<string, unknown>;
+
+  try {
+    await span('memory_job', () => runJobSteps(job), {
+      jobId: job.id,
+      attempt: job.attempts,
+    });
+    status = 'done';
+    update = {
+      status,
+      last_error: null,
+      locked_until: null,
+      finished_at: now.toISOString(),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error('job gagal', { jobId: job.id, attempt: job.attempts, err });
+
+    status = job.attempts >= job.max_attempts ? 'dead' : 'pending';
+    update = {
+      status,
+      last_error: message.slice(0, 1000),
+      locked_until: null,
+      next_run_at: new Date(
+        now.getTime() + backoffSeconds(job.attempts) * 1000
+      ).toISOString(),
+      ...(status === 'dead' ? { finished_at: now.toISOString() } : {}),
+    };
+  }
+
+  await supabase
+    .from('memory_jobs')
+    .update({ ...update, updated_at: now.toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts);
+
+  return status;
+}
+
+export interface MemoryWorkerResult {
+  claimed: number;
+  done: number;
+  retried: number;
+  dead: number;
+  // true = antrean yang siap diproses sudah habis
+  drained: boolean;
+}
+
+/**
+ * Worker: claim job pending (atau running yang lock-nya kedaluwarsa)
+ * per batch sampai antrean habis atau waktu habis.
+ */
+export async function runMemoryJobs(): Promise<MemoryWorkerResult> {
+  const startedAt = Date.now();
+  const result: MemoryWorkerResult = {
+    claimed: 0,
+    done: 0,
+    retried: 0,
+    dead: 0,
+    drained: false,
+  };
+
+  while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+    const { data, error } = await supabase.rpc('claim_memory_jobs', {
+      p_limit: WORKER_BATCH_SIZE,
+      p_lock_seconds: LOCK_SECONDS,
+    });
+    if (error) throw new Error(`claim memory_jobs gagal: ${error.message}`);
+
+    const jobs = (data || []) as MemoryJob[];
+    if (!jobs.length) {
+      result.drained = true;
+      break;
+    }
+
+    result.claimed += jobs.length;
+    for (const job of jobs) {
+      // Log & usage job tercatat atas request chat asal + user job
+      const status = await runWithRequest(
+        { requestId: job.payload.requestId ?? job.id, userId: job.user_id },
+        () => processMemoryJob(job)
+      );
+      if (status === 'done') result.done += 1;
+      else if (status === 'dead') result.dead += 1;
+      else result.retried += 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,177 @@
+// File: lib/hidupai/log.ts
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/* =========================================================
+ *  REQUEST CONTEXT — request id + user untuk semua log
+ * =======================================================*/
+
+export interface RequestContext {
+  requestId: string;
+  userId?: string | null;
+}
+
+// Ikut mengalir ke semua await di dalam request, termasuk kerja
+// background yang dimulai dari request tersebut (job memory inline)
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export const currentRequest = (): RequestContext | null =>
+  storage.getStore() ?? null;
+
+// x-request-id dari proxy/client dipakai ulang kalau formatnya aman
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+export function resolveRequestId(req: Request): string {
+  const incoming = req.headers.get('x-request-id')?.trim();
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : crypto.randomUUID();
+}
+
+export function runWithRequest<T>(context: RequestContext, fn: () => T): T {
+  return storage.run({ ...context }, fn);
+}
+
+/** Tandai user pemilik request setelah token diverifikasi. */
+export function setRequestUser(userId: string | null) {
+  const context = storage.getStore();
+  if (context) context.userId = userId;
+}
+
+/* =========================================================
+ *  STRUCTURED LOGGER — satu baris JSON per event
+ * =======================================================*/
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+// LOG_LEVEL=debug|info|warn|error (default info)
+const MIN_LEVEL =
+  LEVELS[(process.env.LOG_LEVEL || '').toLowerCase() as LogLevel] ??
+  LEVELS.info;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+// Error / PostgrestError → objek polos (JSON.stringify(Error) = {})
+function serializeError(err: unknown): unknown {
+  if (err instanceof Error) {
+    const status = (err as { status?: unknown }).status;
+    return {
+      name: err.name,
+      message: err.message,
+      ...(status !== undefined ? { status } : {}),
+      stack: err.stack?.split('\n').slice(0, 6).join('\n'),
+    };
+  }
+  if (err && typeof err === 'object' && 'message' in err) {
+    const { message, code, details, hint } = err as Record<string, unknown>;
+    return { message, code, details, hint };
+  }
+  return err;
+}
+
+function write(
+  level: LogLevel,
+  scope: string,
+  msg: string,
+  fields: LogFields
+) {
+  if (LEVELS[level] < MIN_LEVEL) return;
+
+  const context = storage.getStore();
+  const entry: LogFields = {
+    ts: new Date().toISOString(),
+    level,
+    scope,
+    msg,
+    ...(context?.requestId ? { requestId: context.requestId } : {}),
+    ...(context?.userId ? { userId: context.userId } : {}),
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    entry[key] =
+      key === 'err' || value instanceof Error ? serializeError(value) : value;
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    // Field sirkular / BigInt → tetap keluar tanpa field tambahan
+    line = JSON.stringify({ ts: entry.ts, level, scope, msg });
+  }
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+export function createLogger(scope: string, base: LogFields = {}): Logger {
+  const at =
+    (level: LogLevel) =>
+    (msg: string, fields: LogFields = {}) =>
+      write(level, scope, msg, { ...base, ...fields });
+
+  return {
+    debug: at('debug'),
+    info: at('info'),
+    warn: at('warn'),
+    error: at('error'),
+    child: (fields) => createLogger(scope, { ...base, ...fields }),
+  };
+}
+
+/* =========================================================
+ *  TIMING SPANS
+ * =======================================================*/
+
+const spanLog = createLogger('span');
+
+/**
+ * Mulai span manual (untuk blok yang tidak mudah dibungkus fungsi).
+ * Panggil hasilnya sekali saat langkah selesai.
+ */
+export function startSpan(name: string, fields: LogFields = {}) {
+  const startedAt = performance.now();
+  return (extra: LogFields & { ok?: boolean } = {}) =>
+    spanLog.info(name, {
+      ...fields,
+      ...extra,
+      span: name,
+      duration_ms: Math.round(performance.now() - startedAt),
+      ok: extra.ok ?? true,
+    });
+}
+
+/**
+ * Ukur durasi satu langkah. Satu baris log per span (sukses maupun
+ * gagal); error tetap dilempar ke pemanggil.
+ */
+export async function span<T>(
+  name: string,
+  fn: () => Promise<T>,
+  fields: LogFields = {}
+): Promise<T> {
+  const end = startSpan(name, fields);
+  try {
+    const result = await fn();
+    end();
+    return result;
+  } catch (err) {
+    end({ ok: false });
+    throw err;
+  }
+}
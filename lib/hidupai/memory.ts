@@ -0,0 +1,257 @@
+// File: lib/hidupai/memory.ts
+
+import { MOCK_MODE } from './config';
+import type { Locale } from './i18n';
+import { createLogger } from './log';
+import { extractionPrompts } from './prompts';
+import { dropFlaggedLines, screenMemoryText } from './screening';
+import { callSummarizer } from './summarizer';
+import { supabase } from './supabase';
+import type { MemorySourceType } from './types';
+
+const log = createLogger('consolidation');
+
+/* =========================================================
+ *  MEMORY SUMMARY — budget & konsolidasi deterministik
+ * =======================================================*/
+
+export const SUMMARY_TOKEN_BUDGET =
+  Number(process.env.MEMORY_SUMMARY_TOKEN_BUDGET) || 600;
+
+// Estimasi kasar: ~4 karakter per token
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const normalizeInsight = (line: string) =>
+  line
+    .replace(/^[-•]\s*/, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Konsolidasi tanpa model: buang duplikat (yang terbaru menang),
+ * lalu simpan insight terbaru sampai budget habis.
+ */
+export function consolidateDeterministic(
+  summary: string,
+  budget: number
+): string {
+  const lines = summary
+    .split('\n')
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const kept: string[] = [];
+  let tokens = 0;
+
+  // Dari bawah (terbaru) ke atas
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const key = normalizeInsight(lines[i]);
+    if (!key || seen.has(key)) continue;
+    const cost = estimateTokens(lines[i]) + 1;
+    if (tokens + cost > budget) break;
+    seen.add(key);
+    kept.unshift(lines[i].startsWith('- ') ? lines[i] : `- ${lines[i]}`);
+    tokens += cost;
+  }
+
+  return kept.join('\n');
+}
+
+/**
+ * Susun ulang users.long_term_memory dari baris long_term_memories
+ * yang tersisa, supaya memori yang sudah dihapus/diubah/dikarantina
+ * tidak muncul lagi di prompt.
+ */
+export async function rebuildLongTermMemory(userId: string): Promise<string> {
+  const { data: rows, error } = await supabase
+    .from('long_term_memories')
+    .select('content')
+    .eq('user_id', userId)
+    .eq('quarantined', false)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`rebuild long_term_memory gagal: ${error.message}`);
+  }
+
+  const summary = consolidateDeterministic(
+    (rows || []).map((r) => r.content as string).join('\n'),
+    SUMMARY_TOKEN_BUDGET
+  );
+
+  await supabase
+    .from('users')
+    .update({ long_term_memory: summary || null })
+    .eq('id', userId);
+
+  return summary;
+}
+
+/**
+ * users.long_term_memory siap masuk prompt: baris yang terlihat
+ * seperti instruksi dibuang, kecuali insight yang sudah direview.
+ * Insight reviewed hanya dimuat kalau memang ada baris yang ter-flag.
+ */
+export async function promptSafeLongTermMemory(
+  userId: string | null,
+  summary: string
+): Promise<string> {
+  const hasFlagged = summary
+    .split('\n')
+    .some((line) => screenMemoryText(line).flagged);
+  if (!hasFlagged) return summary;
+  if (!userId) return dropFlaggedLines(summary);
+
+  const { data: reviewed } = await supabase
+    .from('long_term_memories')
+    .select('content')
+    .eq('user_id', userId)
+    .eq('quarantined', false)
+    .not('reviewed_at', 'is', null);
+
+  return dropFlaggedLines(
+    summary,
+    (reviewed || []).map((r) => r.content as string)
+  );
+}
+
+/* =========================================================
+ *  MEMORY CONSOLIDATION — long_term_memory tetap ringkas
+ * =======================================================*/
+
+async function summarizeWithModel(
+  name: string,
+  summary: string,
+  budget: number,
+  locale: Locale
+): Promise<string | null> {
+  if (MOCK_MODE) return null;
+
+  try {
+    const raw = await callSummarizer([
+      {
+        role: 'system',
+        content: extractionPrompts(locale).consolidation(name, budget),
+      },
+      { role: 'user', content: summary },
+    ]);
+
+    if (!raw) return null;
+
+    // Output model juga disaring: ringkasan tidak boleh jadi jalan
+    // masuk instruksi dari memori
+    const cleaned = dropFlaggedLines(raw)
+      .split('\n')
+      .map((l) => l.trim().replace(/^[-•*]\s*/, ''))
+      .filter(Boolean)
+      .map((l) => `- ${l}`)
+      .join('\n');
+
+    return cleaned || null;
+  } catch (err) {
+    log.error('model error', { err });
+    return null;
+  }
+}
+
+/**
+ * Ringkas ulang users.long_term_memory dan tandai baris
+ * long_term_memories yang sudah dilebur ke ringkasan baru.
+ */
+export async function consolidateLongTermMemory(
+  name: string,
+  userId: string,
+  summary: string,
+  locale: Locale
+): Promise<string> {
+  // Ambil id baris yang belum terkonsolidasi sebelum merangkum
+  const { data: pendingRows } = await supabase
+    .from('long_term_memories')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('quarantined', false)
+    .is('consolidation_id', null);
+
+  const modelSummary = await summarizeWithModel(
+    name,
+    summary,
+    SUMMARY_TOKEN_BUDGET,
+    locale
+  );
+
+  // Model tetap kebablasan → potong deterministik
+  const consolidated = consolidateDeterministic(
+    modelSummary || summary,
+    SUMMARY_TOKEN_BUDGET
+  );
+
+  const { data: row, error } = await supabase
+    .from('memory_consolidations')
+    .insert({
+      user_id: userId,
+      summary: consolidated,
+      source_count: pendingRows?.length ?? 0,
+      method: modelSummary ? 'model' : 'deterministic',
+    })
+    .select('id')
+    .single();
+
+  if (error || !row) {
+    log.error('insert error', { err: error });
+    return consolidated;
+  }
+
+  const ids = (pendingRows || []).map((r) => r.id as string);
+  if (ids.length) {
+    await supabase
+      .from('long_term_memories')
+      .update({ consolidation_id: (row as { id: string }).id })
+      .in('id', ids);
+  }
+
+  return consolidated;
+}
+
+/* =========================================================
+ *  MEMORY KINDS — dipakai API manajemen memori
+ * =======================================================*/
+
+export const MEMORY_KINDS = {
+  insights: {
+    table: 'long_term_memories',
+    contentColumn: 'content',
+    columns:
+      'id, content, pinned, consolidation_id, quarantined, quarantine_reason, created_at',
+    sourceType: 'insight',
+  },
+  episodes: {
+    table: 'episodic_memories',
+    contentColumn: 'summary',
+    columns:
+      'id, summary, tags, raw_text, pinned, quarantined, quarantine_reason, created_at',
+    sourceType: 'episodic',
+  },
+  embeddings: {
+    table: 'memory_embeddings',
+    contentColumn: 'content',
+    columns:
+      'id, source_type, source_id, content, provider, model, dims, quarantined, quarantine_reason, created_at',
+    sourceType: null,
+  },
+} as const satisfies Record<
+  string,
+  {
+    table: string;
+    contentColumn: string;
+    columns: string;
+    sourceType: MemorySourceType | null;
+  }
+>;
+
+export type MemoryKind = keyof typeof MEMORY_KINDS;
+
+export const isMemoryKind = (value: string | null): value is MemoryKind =>
+  value !== null && Object.hasOwn(MEMORY_KINDS, value);
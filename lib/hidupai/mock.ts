@@ -0,0 +1,119 @@
+// File: lib/hidupai/mock.ts
+
+import type { ChatMessage } from './types';
+
+/* =========================================================
+ *  MOCK PROVIDER — deterministik, tanpa network
+ * =======================================================*/
+
+// Samakan dengan dimensi kolom vector(1536) di memory_embeddings
+export const MOCK_EMBED_DIM = 1536;
+
+// FNV-1a 32-bit: cukup untuk seed deterministik
+export function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function snippet(text: string, max = 60): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+}
+
+export function mockKeywords(text: string, count = 3): string[] {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length > 3);
+  return Array.from(new Set(words)).slice(0, count);
+}
+
+export function mockChatReply(messages: ChatMessage[]): string {
+  const last = messages[messages.length - 1]?.content || '';
+  const openers = [
+    'Aku dengar kamu',
+    'Terima kasih sudah cerita, kamu',
+    'Pelan-pelan ya, kamu',
+  ];
+  const opener = openers[hashString(last) % openers.length];
+
+  return `${opener} bilang "${snippet(last)}". 🌱
+
+Ini balasan mock HidupAI, jadi isinya selalu sama untuk pesan yang sama.`;
+}
+
+export async function* streamMock(
+  systemPrompt: ChatMessage,
+  messages: ChatMessage[]
+): AsyncGenerator<string> {
+  const reply = mockChatReply(messages);
+  for (const piece of reply.split(/(?<=\s)/)) yield piece;
+}
+
+// Ambil bagian pesan user dari prompt ekstraksi/summarizer
+function userPartOf(messages: ChatMessage[]): string {
+  const input = messages.find((m) => m.role === 'user')?.content || '';
+  return (
+    input.match(/(?:Pesan|Message from|Mesej)[^\n]*:\n([\s\S]*?)\n\n/)?.[1] ||
+    input
+  );
+}
+
+/**
+ * Meniru summarizer teks bebas: satu bullet insight.
+ */
+export function mockSummarize(messages: ChatMessage[]): string {
+  return `- Sedang memikirkan "${snippet(userPartOf(messages))}".`;
+}
+
+/**
+ * Meniru output JSON mode. Mock tidak menebak progres goal; schema
+ * yang tidak dikenal mendapat objek kosong.
+ */
+export function mockStructured(
+  messages: ChatMessage[],
+  schemaName: string
+): string {
+  // Mock tidak menilai risiko; lexicon tetap jalan seperti biasa
+  if (schemaName === 'crisis_check') {
+    return JSON.stringify({ risk: 'none', category: 'none' });
+  }
+  if (schemaName !== 'turn_extraction') return '{}';
+
+  const userPart = userPartOf(messages);
+  const tags = mockKeywords(userPart);
+  return JSON.stringify({
+    insight: `Sedang memikirkan "${snippet(userPart)}".`,
+    episode: {
+      summary: `Bercerita tentang "${snippet(userPart)}".`,
+      tags: tags.length ? tags : ['umum'],
+    },
+    importance: (hashString(userPart) % 3) + 1,
+    emotion: 'neutral',
+    goal_progress: [],
+  });
+}
+
+/**
+ * Embedding hash bag-of-words: teks dengan kata yang mirip
+ * menghasilkan vektor yang mirip, jadi retrieval tetap bermakna.
+ */
+export function mockEmbedding(text: string): number[] {
+  const vec = new Array<number>(MOCK_EMBED_DIM).fill(0);
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+  for (const word of words) {
+    const h = hashString(word);
+    vec[h % MOCK_EMBED_DIM] += h & 0x80000000 ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vec.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vec.map((v) => v / norm);
+}
@@ -0,0 +1,186 @@
+// File: lib/hidupai/modes.test.ts
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const db = vi.hoisted(() => {
+  // Allowlist model personal dibaca saat module di-load
+  process.env.MODE_MODEL_ALLOWLIST_JSON = '{"openai":["gpt-4o"]}';
+  // Baris chat_modes yang dikembalikan query berikutnya
+  return { rows: [] as object[] };
+});
+
+vi.mock('./supabase', () => {
+  const query = {
+    select: () => query,
+    is: () => query,
+    eq: () => query,
+    then: (resolve: (value: unknown) => unknown) =>
+      resolve({ data: db.rows, error: null }),
+  };
+  return { supabase: { from: () => query } };
+});
+
+import { GEMINI_MODEL, OPENAI_MAIN_MODEL } from './config';
+import {
+  ModeDefinition,
+  getAvailableModes,
+  invalidateModeCache,
+  isAllowedPersonalModel,
+  isBuiltinMode,
+  modeLabel,
+  renderModePrompt,
+  validateModeDefinition,
+} from './modes';
+
+const FOKUS: ModeDefinition = {
+  id: 'fokus',
+  label: 'Fokus',
+  prompt: 'Bantu {{name}} fokus.',
+};
+
+describe('validateModeDefinition', () => {
+  it('menerima mode minimal', () => {
+    expect(validateModeDefinition(FOKUS)).toEqual([]);
+  });
+
+  it('menolak input yang bukan object', () => {
+    expect(validateModeDefinition(null)).toEqual(['mode harus object']);
+    expect(validateModeDefinition('fokus')).toEqual(['mode harus object']);
+  });
+
+  it('mengumpulkan semua error field sekaligus', () => {
+    expect(
+      validateModeDefinition({
+        id: 'Fokus Banget!',
+        label: ' ',
+        prompt: 'x'.repeat(2001),
+        temperature: 3,
+      })
+    ).toEqual([
+      'id harus 2-32 karakter a-z, 0-9, _ atau -',
+      'label wajib diisi',
+      'prompt wajib diisi (maks 2000 karakter)',
+      'temperature harus angka 0-2',
+    ]);
+  });
+
+  it('memeriksa bentuk override model', () => {
+    expect(
+      validateModeDefinition({ ...FOKUS, model: { anthropic: 'x' } })
+    ).toEqual(['model harus { openai?: string, gemini?: string }']);
+    expect(
+      validateModeDefinition({ ...FOKUS, model: { openai: 'gpt-4o' } })
+    ).toEqual([]);
+  });
+
+  it('memeriksa terjemahan per locale', () => {
+    expect(
+      validateModeDefinition({ ...FOKUS, i18n: { fr: { label: 'Focus' } } })
+    ).toEqual(['i18n harus { id|en|ms: { label?, prompt? } }']);
+    expect(
+      validateModeDefinition({ ...FOKUS, i18n: { en: { prompt: 42 } } })
+    ).toHaveLength(1);
+    expect(
+      validateModeDefinition({ ...FOKUS, i18n: { ms: { label: 'Fokus' } } })
+    ).toEqual([]);
+  });
+});
+
+describe('mode personal', () => {
+  it('hanya boleh override model yang ada di allowlist', () => {
+    const personal = { personal: true };
+    expect(
+      validateModeDefinition(
+        { ...FOKUS, model: { openai: 'gpt-4o', gemini: GEMINI_MODEL } },
+        personal
+      )
+    ).toEqual([]);
+    expect(
+      validateModeDefinition(
+        { ...FOKUS, model: { openai: 'o1-pro', gemini: 'gemini-ultra' } },
+        personal
+      )
+    ).toEqual([
+      'model openai "o1-pro" tidak diizinkan',
+      'model gemini "gemini-ultra" tidak diizinkan',
+    ]);
+  });
+
+  it('allowlist = model utama + tambahan dari env', () => {
+    expect(isAllowedPersonalModel('openai', OPENAI_MAIN_MODEL)).toBe(true);
+    expect(isAllowedPersonalModel('openai', 'gpt-4o')).toBe(true);
+    expect(isAllowedPersonalModel('gemini', GEMINI_MODEL)).toBe(true);
+    expect(isAllowedPersonalModel('gemini', 'gpt-4o')).toBe(false);
+    expect(isAllowedPersonalModel('mistral', OPENAI_MAIN_MODEL)).toBe(false);
+    expect(isAllowedPersonalModel('openai', ['gpt-4o'])).toBe(false);
+  });
+});
+
+describe('getAvailableModes', () => {
+  beforeEach(() => invalidateModeCache());
+
+  it('baris yang tidak valid dilewati, mode bawaan tetap ada', async () => {
+    db.rows = [
+      { slug: 'X', label: '', prompt: '', owner_id: null },
+      { slug: 'fokus', label: 'Fokus', prompt: 'Fokus.', owner_id: null },
+    ];
+    const ids = (await getAvailableModes(null)).map((m) => m.id);
+    expect(ids).not.toContain('X');
+    expect(ids).toEqual(expect.arrayContaining(['umum', 'pagi', 'fokus']));
+  });
+
+  it('model personal di luar allowlist dibuang saat load', async () => {
+    db.rows = [
+      {
+        slug: 'boros',
+        label: 'Boros',
+        prompt: 'Mode lama.',
+        model: { openai: 'o1-pro', gemini: GEMINI_MODEL },
+        owner_id: 'u1',
+      },
+    ];
+    const modes = await getAvailableModes('u1');
+    expect(modes.find((m) => m.id === 'boros')?.model).toEqual({
+      gemini: GEMINI_MODEL,
+    });
+  });
+
+  it('mode personal menimpa mode dengan id yang sama', async () => {
+    db.rows = [
+      {
+        slug: 'umum',
+        label: 'Umum Saya',
+        prompt: 'Versi saya.',
+        owner_id: 'u1',
+      },
+    ];
+    const modes = await getAvailableModes('u1');
+    expect(modes.filter((m) => m.id === 'umum')).toHaveLength(1);
+    expect(modes.find((m) => m.id === 'umum')?.label).toBe('Umum Saya');
+  });
+});
+
+describe('renderModePrompt', () => {
+  const translated: ModeDefinition = {
+    ...FOKUS,
+    i18n: { en: { label: 'Focus', prompt: 'Help {{ name }} focus.' } },
+  };
+
+  it('mengisi placeholder {{name}}', () => {
+    expect(renderModePrompt(FOKUS, 'Budi')).toBe('Bantu Budi fokus.');
+  });
+
+  it('memakai terjemahan bila ada, selain itu teks utama', () => {
+    expect(renderModePrompt(translated, 'Budi', 'en')).toBe('Help Budi focus.');
+    expect(renderModePrompt(translated, 'Budi', 'ms')).toBe(
+      'Bantu Budi fokus.'
+    );
+    expect(modeLabel(translated, 'en')).toBe('Focus');
+    expect(modeLabel(translated, 'ms')).toBe('Fokus');
+  });
+
+  it('mengenali mode bawaan', () => {
+    expect(isBuiltinMode('umum')).toBe(true);
+    expect(isBuiltinMode('fokus')).toBe(false);
+  });
+});
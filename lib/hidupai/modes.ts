@@ -0,0 +1,272 @@
+// File: lib/hidupai/modes.ts
+
+import { GEMINI_MODEL, OPENAI_MAIN_MODEL } from './config';
+import { Locale, SUPPORTED_LOCALES } from './i18n';
+import { createLogger } from './log';
+import builtinModes from './modes.v1.json';
+import { supabase } from './supabase';
+
+const log = createLogger('modes');
+
+/* =========================================================
+ *  MODE REGISTRY — JSON bawaan + tabel chat_modes
+ * =======================================================*/
+
+export interface ModeDefinition {
+  id: string;
+  label: string;
+  // Boleh pakai placeholder {{name}}
+  prompt: string;
+  temperature?: number;
+  // Override model per provider, contoh { "openai": "gpt-4o" }
+  model?: { openai?: string; gemini?: string };
+  ownerId?: string | null;
+  // Terjemahan opsional; yang kosong jatuh ke label/prompt utama
+  i18n?: Partial<Record<Locale, { label?: string; prompt?: string }>>;
+}
+
+interface ChatModeRow {
+  slug: string;
+  label: string;
+  prompt: string;
+  temperature: number | null;
+  model: { openai?: string; gemini?: string } | null;
+  owner_id: string | null;
+  i18n: ModeDefinition['i18n'] | null;
+}
+
+const MODE_ID_PATTERN = /^[a-z0-9_-]{2,32}$/;
+const MAX_MODE_PROMPT_LENGTH = 2000;
+const MODE_CACHE_TTL_MS = Number(process.env.MODE_CACHE_TTL_MS) || 5 * 60_000;
+
+export const DEFAULT_MODE_ID = builtinModes.defaultMode;
+
+type ModelProvider = keyof NonNullable<ModeDefinition['model']>;
+
+// Model yang boleh dipilih mode personal (biaya ditanggung layanan).
+// Default hanya model utama; tambah via env, contoh:
+// MODE_MODEL_ALLOWLIST_JSON='{"openai":["gpt-4o"],"gemini":["gemini-1.5-pro"]}'
+const PERSONAL_MODEL_ALLOWLIST: Record<ModelProvider, string[]> = (() => {
+  const allowlist = { openai: [OPENAI_MAIN_MODEL], gemini: [GEMINI_MODEL] };
+  try {
+    const raw = process.env.MODE_MODEL_ALLOWLIST_JSON;
+    const extra = raw ? (JSON.parse(raw) as Partial<typeof allowlist>) : {};
+    for (const provider of ['openai', 'gemini'] as const) {
+      const models = extra[provider];
+      if (Array.isArray(models)) {
+        allowlist[provider].push(
+          ...models.filter((m): m is string => typeof m === 'string')
+        );
+      }
+    }
+  } catch {
+    log.error('MODE_MODEL_ALLOWLIST_JSON bukan JSON valid');
+  }
+  return allowlist;
+})();
+
+export const isAllowedPersonalModel = (provider: string, model: unknown) =>
+  (provider === 'openai' || provider === 'gemini') &&
+  typeof model === 'string' &&
+  PERSONAL_MODEL_ALLOWLIST[provider].includes(model);
+
+/**
+ * Validasi satu definisi mode. Mengembalikan daftar error (kosong = valid).
+ * Mode personal hanya boleh override model yang ada di allowlist.
+ */
+export function validateModeDefinition(
+  input: unknown,
+  { personal = false }: { personal?: boolean } = {}
+): string[] {
+  const errors: string[] = [];
+  const mode = input as Partial<ModeDefinition> | null;
+
+  if (!mode || typeof mode !== 'object') return ['mode harus object'];
+  if (typeof mode.id !== 'string' || !MODE_ID_PATTERN.test(mode.id)) {
+    errors.push('id harus 2-32 karakter a-z, 0-9, _ atau -');
+  }
+  if (typeof mode.label !== 'string' || !mode.label.trim()) {
+    errors.push('label wajib diisi');
+  }
+  if (
+    typeof mode.prompt !== 'string' ||
+    !mode.prompt.trim() ||
+    mode.prompt.length > MAX_MODE_PROMPT_LENGTH
+  ) {
+    errors.push(`prompt wajib diisi (maks ${MAX_MODE_PROMPT_LENGTH} karakter)`);
+  }
+  if (
+    mode.temperature !== undefined &&
+    mode.temperature !== null &&
+    (typeof mode.temperature !== 'number' ||
+      mode.temperature < 0 ||
+      mode.temperature > 2)
+  ) {
+    errors.push('temperature harus angka 0-2');
+  }
+  if (mode.model !== undefined && mode.model !== null) {
+    const model = mode.model as Record<string, unknown>;
+    const valid =
+      typeof model === 'object' &&
+      Object.entries(model).every(
+        ([provider, value]) =>
+          ['openai', 'gemini'].includes(provider) && typeof value === 'string'
+      );
+    if (!valid) {
+      errors.push('model harus { openai?: string, gemini?: string }');
+    } else if (personal) {
+      for (const [provider, value] of Object.entries(model)) {
+        if (!isAllowedPersonalModel(provider, value)) {
+          errors.push(`model ${provider} "${value}" tidak diizinkan`);
+        }
+      }
+    }
+  }
+  if (mode.i18n !== undefined && mode.i18n !== null) {
+    const valid =
+      typeof mode.i18n === 'object' &&
+      Object.entries(mode.i18n).every(
+        ([locale, value]) =>
+          (SUPPORTED_LOCALES as string[]).includes(locale) &&
+          !!value &&
+          typeof value === 'object' &&
+          (value.label === undefined || typeof value.label === 'string') &&
+          (value.prompt === undefined ||
+            (typeof value.prompt === 'string' &&
+              value.prompt.length <= MAX_MODE_PROMPT_LENGTH))
+      );
+    if (!valid) {
+      errors.push(
+        `i18n harus { ${SUPPORTED_LOCALES.join('|')}: { label?, prompt? } }`
+      );
+    }
+  }
+
+  return errors;
+}
+
+// Mode bawaan divalidasi sekali saat module di-load
+const BUILTIN_MODES: ModeDefinition[] = builtinModes.modes.map((mode) => {
+  const errors = validateModeDefinition(mode);
+  if (errors.length) {
+    throw new Error(`modes.v1.json: mode "${mode.id}" tidak valid: ${errors}`);
+  }
+  return mode as ModeDefinition;
+});
+
+// Baris personal lama dengan model di luar allowlist: mode tetap
+// dipakai, override modelnya saja yang dibuang
+function personalModelOverrides(
+  model: ChatModeRow['model']
+): ModeDefinition['model'] {
+  if (!model) return undefined;
+  const allowed = Object.fromEntries(
+    Object.entries(model).filter(([provider, value]) =>
+      isAllowedPersonalModel(provider, value)
+    )
+  );
+  return Object.keys(allowed).length ? allowed : undefined;
+}
+
+const rowToMode = (row: ChatModeRow): ModeDefinition => ({
+  id: row.slug,
+  label: row.label,
+  prompt: row.prompt,
+  temperature: row.temperature ?? undefined,
+  model: row.owner_id
+    ? personalModelOverrides(row.model)
+    : row.model ?? undefined,
+  ownerId: row.owner_id,
+  i18n: row.i18n ?? undefined,
+});
+
+const modeCache = new Map<
+  string,
+  { modes: ModeDefinition[]; expiresAt: number }
+>();
+
+async function loadModeRows(
+  cacheKey: string,
+  query: () => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<ModeDefinition[]> {
+  const cached = modeCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.modes;
+
+  const { data, error } = await query();
+  if (error) {
+    log.error('load error', { err: error });
+    return cached?.modes || [];
+  }
+
+  // Baris yang tidak valid dilewati, bukan menggagalkan semua mode
+  const modes = ((data || []) as ChatModeRow[])
+    .map(rowToMode)
+    .filter((mode) => {
+      const errors = validateModeDefinition(mode, {
+        personal: Boolean(mode.ownerId),
+      });
+      if (errors.length) {
+        log.warn('mode dilewati', { mode: mode.id, errors });
+      }
+      return !errors.length;
+    });
+
+  modeCache.set(cacheKey, {
+    modes,
+    expiresAt: Date.now() + MODE_CACHE_TTL_MS,
+  });
+  return modes;
+}
+
+export function invalidateModeCache(userId?: string) {
+  if (userId) modeCache.delete(`user:${userId}`);
+  else modeCache.clear();
+}
+
+/**
+ * Semua mode yang bisa dipakai user: bawaan → global DB → personal.
+ * Id yang sama di lapisan berikutnya menimpa yang sebelumnya.
+ */
+export async function getAvailableModes(
+  userId: string | null
+): Promise<ModeDefinition[]> {
+  const [globalModes, personalModes] = await Promise.all([
+    loadModeRows('global', () =>
+      supabase
+        .from('chat_modes')
+        .select('slug, label, prompt, temperature, model, owner_id, i18n')
+        .is('owner_id', null)
+        .eq('is_active', true)
+    ),
+    userId
+      ? loadModeRows(`user:${userId}`, () =>
+          supabase
+            .from('chat_modes')
+            .select('slug, label, prompt, temperature, model, owner_id, i18n')
+            .eq('owner_id', userId)
+            .eq('is_active', true)
+        )
+      : Promise.resolve([]),
+  ]);
+
+  const byId = new Map<string, ModeDefinition>();
+  for (const mode of [...BUILTIN_MODES, ...globalModes, ...personalModes]) {
+    byId.set(mode.id, mode);
+  }
+  return Array.from(byId.values());
+}
+
+export const isBuiltinMode = (id: string) =>
+  BUILTIN_MODES.some((mode) => mode.id === id);
+
+export function renderModePrompt(
+  mode: ModeDefinition,
+  name: string,
+  locale?: Locale
+): string {
+  const prompt = (locale && mode.i18n?.[locale]?.prompt) || mode.prompt;
+  return prompt.replace(/\{\{\s*name\s*\}\}/g, name).trim();
+}
+
+export const modeLabel = (mode: ModeDefinition, locale?: Locale) =>
+  (locale && mode.i18n?.[locale]?.label) || mode.label;
@@ -0,0 +1,135 @@
+// File: lib/hidupai/screening.ts
+
+/* =========================================================
+ *  PROMPT INJECTION — screening memori + pagar data di prompt
+ * =======================================================*/
+
+export interface ScreeningResult {
+  flagged: boolean;
+  // Nama pola yang cocok, disimpan sebagai quarantine_reason
+  reasons: string[];
+}
+
+// Pola instruksi ke model (id / en / ms). Sengaja sempit: kalimat curhat
+// biasa ("Budi ingin melupakan aturan lama keluarganya") tidak ikut.
+const INJECTION_PATTERNS: { reason: string; pattern: RegExp }[] = [
+  {
+    reason: 'override_instructions',
+    pattern:
+      /\b(ignore|disregard|forget|override)\b.{0,30}\b(previous|prior|above|earlier|system|your)\b.{0,20}\b(instructions?|prompts?|rules|guidelines)\b/i,
+  },
+  {
+    reason: 'override_instructions',
+    pattern:
+      /\b(ignore|disregard)\b.{0,20}\ball\b.{0,20}\b(instructions?|prompts?)\b/i,
+  },
+  {
+    reason: 'override_instructions',
+    pattern:
+      /\b(abaikan|lupakan|hiraukan|acuhkan)\b.{0,30}\b(instruksi|prompt|arahan sistem)\b/i,
+  },
+  {
+    reason: 'override_instructions',
+    pattern:
+      /\b(abaikan|hiraukan|acuhkan)\b.{0,20}\b(semua|seluruh|segala) (aturan|perintah|arahan)\b/i,
+  },
+  {
+    reason: 'role_change',
+    pattern:
+      /\b(you are now|from now on,? you|pretend (to be|you are)|act as (an?|the) (ai|assistant|model|system)|new persona)\b/i,
+  },
+  {
+    reason: 'role_change',
+    pattern:
+      /\b(kamu|anda|awak) (sekarang|mulai sekarang) (adalah|jadi|menjadi)\b|\bmulai (sekarang|saat ini),? (kamu|anda|awak) (harus|wajib|selalu|jangan)\b/i,
+  },
+  {
+    reason: 'prompt_reference',
+    pattern:
+      /\b(system prompt|prompt sistem|system message|developer mode|jailbreak)\b/i,
+  },
+  {
+    reason: 'prompt_exfiltration',
+    pattern:
+      /\b(reveal|print|show|repeat|tampilkan|tunjukkan|ulangi)\b.{0,30}\b(your instructions|system prompt|prompt sistem|instruksi(mu| kamu| sistem))\b/i,
+  },
+  {
+    reason: 'role_markup',
+    pattern:
+      /<\/?\s*(system|assistant|user|memory_data|instructions?)\s*>|\[\/?(INST|SYS)\]|<\|im_(start|end)\|>|^\s*(SYSTEM|ASSISTANT|DEVELOPER)\s*:/im,
+  },
+  {
+    reason: 'hidden_behavior',
+    pattern:
+      /\b(do not|don't|never) (tell|mention|reveal) (this )?to the user\b|\b(jangan|tanpa) (beri ?tahu|bilang|kasih tahu) (ke )?(user|pengguna)\b/i,
+  },
+];
+
+/**
+ * Cek teks yang akan disimpan sebagai memori. flagged = ada pola
+ * instruksi; memori tetap disimpan tapi dikarantina sampai direview.
+ */
+export function screenMemoryText(text: string): ScreeningResult {
+  const normalized = text.normalize('NFKC');
+  const reasons = Array.from(
+    new Set(
+      INJECTION_PATTERNS.filter(({ pattern }) => pattern.test(normalized)).map(
+        ({ reason }) => reason
+      )
+    )
+  );
+  return { flagged: reasons.length > 0, reasons };
+}
+
+/** Kolom karantina untuk insert/update baris memori. */
+export const quarantineColumns = (screening: ScreeningResult) =>
+  screening.flagged
+    ? { quarantined: true, quarantine_reason: screening.reasons.join(',') }
+    : { quarantined: false, quarantine_reason: null };
+
+/**
+ * Baris memori boleh masuk prompt kalau sudah direview (keputusan
+ * review dipercaya), atau belum direview tapi lolos screening
+ * (memori lama yang tersimpan sebelum screening ada).
+ */
+export const isPromptSafeMemory = (
+  text: string,
+  reviewedAt: string | null | undefined
+) => Boolean(reviewedAt) || !screenMemoryText(text).flagged;
+
+/**
+ * Buang baris yang terlihat seperti instruksi dari blok memori
+ * turunan (ringkasan) sebelum masuk prompt. Baris yang sama persis
+ * dengan memori yang sudah direview (`trusted`) tetap dipertahankan.
+ */
+export function dropFlaggedLines(
+  block: string,
+  trusted: Iterable<string> = []
+): string {
+  const trustedLines = new Set(Array.from(trusted, (t) => t.trim()));
+  return block
+    .split('\n')
+    .filter(
+      (line) =>
+        trustedLines.has(line.trim()) || !screenMemoryText(line).flagged
+    )
+    .join('\n');
+}
+
+/* =========================================================
+ *  PAGAR DATA — memori di prompt ditandai sebagai data
+ * =======================================================*/
+
+export const MEMORY_FENCE_TAG = 'memory_data';
+
+/**
+ * Bungkus blok memori dengan tag data. Tag serupa di dalam isi
+ * dinetralkan supaya konten tidak bisa "menutup" pagar lebih awal.
+ */
+export function fenceMemoryBlock(block: string): string {
+  const neutralized = block.replace(
+    new RegExp(`<\\s*/?\\s*${MEMORY_FENCE_TAG}[^>]*>`, 'gi'),
+    '[memori]'
+  );
+  return `<${MEMORY_FENCE_TAG}>\n${neutralized}\n</${MEMORY_FENCE_TAG}>`;
+}
@@ -0,0 +1,312 @@
+// File: lib/hidupai/summarizer.ts
+
+import type { ResponseSchema } from '@google/generative-ai';
+import {
+  GEMINI_MODEL,
+  MOCK_MODE,
+  OPENAI_ENABLED,
+  OPENAI_SUMMARIZER_MODEL,
+  OPENAI_SUMMARIZER_URL,
+  genAI,
+  openAIHeaders,
+} from './config';
+import { createLogger } from './log';
+import { mockStructured, mockSummarize } from './mock';
+import type { ChatMessage } from './types';
+import {
+  TokenUsage,
+  UsageKind,
+  estimateUsage,
+  fromGeminiUsage,
+  fromOpenAIUsage,
+  recordUsage,
+} from './usage';
+
+const log = createLogger('structured');
+
+export const GEMINI_SUMMARIZER_MODEL =
+  process.env.GEMINI_SUMMARIZER_MODEL || GEMINI_MODEL;
+
+export interface ModelCallOptions {
+  // Batas waktu total (semua provider); untuk pemanggil di jalur chat
+  timeoutMs?: number;
+}
+
+/** AbortController yang abort sendiri setelah timeoutMs (kalau diisi). */
+function abortAfter(timeoutMs?: number) {
+  const controller = new AbortController();
+  const timer = timeoutMs
+    ? setTimeout(() => controller.abort(), timeoutMs)
+    : null;
+  return {
+    signal: controller.signal,
+    clear: () => timer && clearTimeout(timer),
+  };
+}
+
+/** Catat usage ke ledger; estimasi lokal kalau provider tidak melapor. */
+function recordCall(call: {
+  kind: UsageKind;
+  provider: 'openai' | 'gemini';
+  model: string;
+  reported: TokenUsage | null;
+  messages: ChatMessage[];
+  output: string;
+}) {
+  const { kind, provider, model, reported, messages, output } = call;
+  const input = messages.map((m) => m.content).join('\n');
+  return recordUsage({
+    kind,
+    provider,
+    model,
+    usage: reported ?? estimateUsage(input, output, model),
+  });
+}
+
+/**
+ * Panggil model summarizer (atau mock). null kalau tidak tersedia/gagal.
+ * Usage token dicatat ke ledger atas nama user di request context.
+ */
+export async function callSummarizer(
+  messages: ChatMessage[],
+  { timeoutMs }: ModelCallOptions = {}
+): Promise<string | null> {
+  if (MOCK_MODE) return mockSummarize(messages);
+  if (!OPENAI_ENABLED) return null;
+
+  const timeout = abortAfter(timeoutMs);
+  let json;
+  try {
+    const res = await fetch(OPENAI_SUMMARIZER_URL, {
+      method: 'POST',
+      headers: openAIHeaders(),
+      body: JSON.stringify({
+        model: OPENAI_SUMMARIZER_MODEL,
+        temperature: 0.2,
+        messages,
+      }),
+      signal: timeout.signal,
+    });
+    if (!res.ok) return null;
+    json = await res.json();
+  } catch (err) {
+    if (!timeout.signal.aborted) throw err;
+    log.warn('summarizer timeout', { timeout_ms: timeoutMs });
+    return null;
+  } finally {
+    timeout.clear();
+  }
+
+  const content: string | undefined =
+    json.choices?.[0]?.message?.content?.trim();
+
+  await recordCall({
+    kind: 'summarizer',
+    provider: 'openai',
+    model: OPENAI_SUMMARIZER_MODEL,
+    reported: fromOpenAIUsage(json.usage),
+    messages,
+    output: content || '',
+  });
+  return content || null;
+}
+
+/* =========================================================
+ *  STRUCTURED OUTPUT — JSON mode OpenAI & Gemini
+ * =======================================================*/
+
+// Subset JSON Schema yang dipahami kedua provider:
+// object/array/string/integer/number/boolean, enum, required.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface StructuredSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+type StructuredProvider = 'openai' | 'gemini';
+
+// json_schema (OpenAI, vLLM) | json_object (server lama) | none
+const OPENAI_JSON_MODE = process.env.OPENAI_JSON_MODE || 'json_schema';
+
+// OpenAI strict mode: semua field wajib, tanpa field tambahan
+function toOpenAISchema(schema: JsonSchema): Record<string, unknown> {
+  const { properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([k, v]) => [k, toOpenAISchema(v)])
+          ),
+          required: Object.keys(properties),
+          additionalProperties: false,
+        }
+      : {}),
+    ...(items ? { items: toOpenAISchema(items) } : {}),
+  };
+}
+
+// Gemini: enum string butuh format "enum", tidak kenal additionalProperties
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  const { properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(rest.enum ? { format: 'enum' } : {}),
+    ...(properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(properties).map(([k, v]) => [k, toGeminiSchema(v)])
+          ),
+          required: schema.required || Object.keys(properties),
+        }
+      : {}),
+    ...(items ? { items: toGeminiSchema(items) } : {}),
+  } as unknown as ResponseSchema;
+}
+
+async function callOpenAIStructured(
+  messages: ChatMessage[],
+  { name, schema }: StructuredSchema,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const responseFormat =
+    OPENAI_JSON_MODE === 'json_schema'
+      ? {
+          type: 'json_schema',
+          json_schema: { name, strict: true, schema: toOpenAISchema(schema) },
+        }
+      : OPENAI_JSON_MODE === 'json_object'
+        ? { type: 'json_object' }
+        : undefined;
+
+  const res = await fetch(OPENAI_SUMMARIZER_URL, {
+    method: 'POST',
+    headers: openAIHeaders(),
+    body: JSON.stringify({
+      model: OPENAI_SUMMARIZER_MODEL,
+      temperature: 0.2,
+      messages,
+      ...(responseFormat ? { response_format: responseFormat } : {}),
+    }),
+    signal,
+  });
+
+  if (!res.ok) {
+    log.warn('openai error', { status: res.status });
+    return null;
+  }
+
+  const json = await res.json();
+  const content: string | undefined =
+    json.choices?.[0]?.message?.content?.trim();
+
+  await recordCall({
+    kind: 'extraction',
+    provider: 'openai',
+    model: OPENAI_SUMMARIZER_MODEL,
+    reported: fromOpenAIUsage(json.usage),
+    messages,
+    output: content || '',
+  });
+  return content || null;
+}
+
+async function callGeminiStructured(
+  messages: ChatMessage[],
+  { schema }: StructuredSchema,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (!genAI) return null;
+
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+  const model = genAI.getGenerativeModel({
+    model: GEMINI_SUMMARIZER_MODEL,
+    systemInstruction: system || undefined,
+    generationConfig: {
+      temperature: 0.2,
+      responseMimeType: 'application/json',
+      responseSchema: toGeminiSchema(schema),
+    },
+  });
+
+  const res = await model.generateContent(
+    {
+      contents: messages
+        .filter((m) => m.role !== 'system')
+        .map((m) => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: [{ text: m.content }],
+        })),
+    },
+    { signal }
+  );
+  const content = res.response.text().trim();
+
+  await recordCall({
+    kind: 'extraction',
+    provider: 'gemini',
+    model: GEMINI_SUMMARIZER_MODEL,
+    reported: fromGeminiUsage(res.response.usageMetadata),
+    messages,
+    output: content,
+  });
+  return content || null;
+}
+
+function structuredProviders(): StructuredProvider[] {
+  const available: StructuredProvider[] = [];
+  if (OPENAI_ENABLED) available.push('openai');
+  if (genAI) available.push('gemini');
+
+  // EXTRACTION_PROVIDER=gemini → gemini dulu, sisanya fallback
+  const preferred = process.env.EXTRACTION_PROVIDER;
+  return available.sort((a, b) =>
+    a === preferred ? -1 : b === preferred ? 1 : 0
+  );
+}
+
+/**
+ * Minta output JSON sesuai schema. Mengembalikan teks mentah (belum
+ * divalidasi) dari provider pertama yang berhasil, atau null (termasuk
+ * kalau timeoutMs habis).
+ */
+export async function callStructured(
+  messages: ChatMessage[],
+  schema: StructuredSchema,
+  { timeoutMs }: ModelCallOptions = {}
+): Promise<string | null> {
+  if (MOCK_MODE) return mockStructured(messages, schema.name);
+
+  const timeout = abortAfter(timeoutMs);
+  try {
+    for (const provider of structuredProviders()) {
+      try {
+        const raw =
+          provider === 'openai'
+            ? await callOpenAIStructured(messages, schema, timeout.signal)
+            : await callGeminiStructured(messages, schema, timeout.signal);
+        if (raw) return raw;
+      } catch (err) {
+        log.warn('provider gagal', { provider, err });
+      }
+      if (timeout.signal.aborted) {
+        log.warn('timeout', { schema: schema.name, timeout_ms: timeoutMs });
+        break;
+      }
+    }
+    return null;
+  } finally {
+    timeout.clear();
+  }
+}
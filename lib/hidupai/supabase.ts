@@ -0,0 +1,12 @@
+// File: lib/hidupai/supabase.ts
+
+import { createClient } from '@supabase/supabase-js';
+
+/* =========================================================
+ * SUPABASE CLIENT
+ * =======================================================*/
+
+export const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
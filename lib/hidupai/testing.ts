@@ -0,0 +1,300 @@
+// File: lib/hidupai/testing.ts
+// Supabase palsu (in-memory) untuk test route & worker; hanya dipakai
+// dari file *.test.ts lewat vi.mock('@/lib/hidupai/supabase').
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+type RpcHandler = (args: Row) => { data: unknown; error: unknown };
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string } | null;
+  count?: number | null;
+}
+
+/* =========================================================
+ *  QUERY BUILDER — subset API supabase-js yang dipakai repo
+ * =======================================================*/
+
+function project(row: Row, columns: string): Row {
+  if (columns.trim() === '*') return { ...row };
+  return Object.fromEntries(
+    columns
+      .split(',')
+      .map((c) => c.trim())
+      .filter(Boolean)
+      .map((c) => [c, row[c] ?? null])
+  );
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  return (a as number | string) < (b as number | string) ? -1 : 1;
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' =
+    'select';
+  private payload: Row[] = [];
+  private patch: Row = {};
+  private columns: string | null = null;
+  private countMode = false;
+  private headOnly = false;
+  private sorts: { column: string; ascending: boolean }[] = [];
+  private max: number | null = null;
+  private offset = 0;
+  private singleMode: 'one' | 'maybe' | null = null;
+  private conflict: { column: string; ignore: boolean } | null = null;
+
+  constructor(
+    private db: FakeSupabase,
+    private table: string
+  ) {}
+
+  select(columns = '*', opts: { count?: string; head?: boolean } = {}) {
+    this.columns = columns;
+    this.countMode = Boolean(opts.count);
+    this.headOnly = Boolean(opts.head);
+    return this;
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(
+    rows: Row | Row[],
+    opts: { onConflict?: string; ignoreDuplicates?: boolean } = {}
+  ) {
+    this.action = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    this.conflict = {
+      column: opts.onConflict || 'id',
+      ignore: Boolean(opts.ignoreDuplicates),
+    };
+    return this;
+  }
+
+  update(patch: Row) {
+    this.action = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] !== value);
+    return this;
+  }
+
+  is(column: string, value: unknown) {
+    this.filters.push((row) => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push((row) => compare(row[column], value) < 0);
+    return this;
+  }
+
+  order(column: string, opts: { ascending?: boolean } = {}) {
+    this.sorts.push({ column, ascending: opts.ascending !== false });
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.offset = from;
+    this.max = to - from + 1;
+    return this;
+  }
+
+  single() {
+    this.singleMode = 'one';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybe';
+    return this;
+  }
+
+  then<T1 = QueryResult, T2 = never>(
+    resolve?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+    reject?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => this.run())
+      .then(resolve, reject);
+  }
+
+  private matches(row: Row) {
+    return this.filters.every((f) => f(row));
+  }
+
+  private run(): QueryResult {
+    const failure = this.db.failures.get(`${this.action}:${this.table}`);
+    if (failure) return { data: null, error: { message: failure } };
+
+    const rows = this.db.table(this.table);
+    let affected: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        affected = this.payload.map((r) => this.db.store(this.table, r));
+        break;
+      case 'upsert': {
+        const { column, ignore } = this.conflict!;
+        affected = [];
+        for (const r of this.payload) {
+          const existing = rows.find((row) => row[column] === r[column]);
+          if (!existing) affected.push(this.db.store(this.table, r));
+          else if (!ignore) affected.push(Object.assign(existing, r));
+        }
+        break;
+      }
+      case 'update':
+        affected = rows.filter((r) => this.matches(r));
+        affected.forEach((r) => Object.assign(r, this.patch));
+        break;
+      case 'delete':
+        affected = rows.filter((r) => this.matches(r));
+        this.db.tables.set(
+          this.table,
+          rows.filter((r) => !affected.includes(r))
+        );
+        break;
+      default:
+        affected = rows.filter((r) => this.matches(r));
+    }
+
+    if (this.action !== 'select' && this.columns === null) {
+      return { data: null, error: null };
+    }
+
+    for (const { column, ascending } of [...this.sorts].reverse()) {
+      affected = [...affected].sort(
+        (a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1)
+      );
+    }
+    const total = affected.length;
+    if (this.max !== null || this.offset) {
+      affected = affected.slice(
+        this.offset,
+        this.max === null ? undefined : this.offset + this.max
+      );
+    }
+
+    const data = affected.map((r) => project(r, this.columns || '*'));
+    const count = this.countMode ? total : null;
+    if (this.headOnly) return { data: null, error: null, count };
+
+    if (this.singleMode) {
+      if (data.length === 1) return { data: data[0], error: null, count };
+      if (!data.length && this.singleMode === 'maybe') {
+        return { data: null, error: null, count };
+      }
+      return { data: null, error: { message: 'bukan tepat satu baris' } };
+    }
+    return { data, error: null, count };
+  }
+}
+
+/* =========================================================
+ *  DATABASE PALSU
+ * =======================================================*/
+
+export interface FakeSupabase {
+  tables: Map<string, Row[]>;
+  // `${aksi}:${tabel}` → pesan error, untuk mensimulasikan query gagal
+  failures: Map<string, string>;
+  rpcs: Map<string, RpcHandler>;
+  table(name: string): Row[];
+  store(table: string, row: Row): Row;
+  seed(table: string, rows: Row[]): void;
+  from(table: string): FakeQuery;
+  rpc(
+    name: string,
+    args?: Row
+  ): PromiseLike<QueryResult> & { single(): PromiseLike<QueryResult> };
+}
+
+export function createFakeSupabase(): FakeSupabase {
+  let nextId = 1;
+
+  const db: FakeSupabase = {
+    tables: new Map(),
+    failures: new Map(),
+    rpcs: new Map(),
+    table(name) {
+      if (!db.tables.has(name)) db.tables.set(name, []);
+      return db.tables.get(name)!;
+    },
+    store(table, row) {
+      const stored = {
+        id: `${table}-${nextId++}`,
+        created_at: new Date().toISOString(),
+        ...row,
+      };
+      db.table(table).push(stored);
+      return stored;
+    },
+    seed(table, rows) {
+      rows.forEach((row) => db.store(table, row));
+    },
+    from(table) {
+      return new FakeQuery(db, table);
+    },
+    rpc(name, args = {}) {
+      const run = (): QueryResult => {
+        const handler = db.rpcs.get(name);
+        if (!handler) {
+          return { data: null, error: { message: `rpc ${name} tidak ada` } };
+        }
+        return handler(args) as QueryResult;
+      };
+      const single = () => {
+        const result = run();
+        const data = Array.isArray(result.data)
+          ? (result.data[0] ?? null)
+          : result.data;
+        return Promise.resolve({ ...result, data });
+      };
+      // Lazy seperti supabase-js: handler baru jalan saat di-await
+      return {
+        then: (resolve, reject) =>
+          Promise.resolve().then(run).then(resolve, reject),
+        single,
+      };
+    },
+  };
+  return db;
+}
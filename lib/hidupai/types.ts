@@ -0,0 +1,23 @@
+// File: lib/hidupai/types.ts
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export type MemorySourceType = 'chat' | 'episodic' | 'insight';
+
+export interface MemoryEmbeddingInsert {
+  user_id: string;
+  source_type: MemorySourceType;
+  source_id: string | null;
+  content: string;
+  embedding: number[];
+  // Ruang vektor (provider + model) + dimensi, lihat embeddingColumns
+  provider: string;
+  model: string;
+  dims: number;
+  // Lihat screening.ts; default false di DB
+  quarantined?: boolean;
+  quarantine_reason?: string | null;
+}
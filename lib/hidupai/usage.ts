@@ -0,0 +1,139 @@
+// File: lib/hidupai/usage.ts
+
+import { countTokens } from './context';
+import { createLogger, currentRequest } from './log';
+import { supabase } from './supabase';
+
+const log = createLogger('usage');
+
+/* =========================================================
+ *  USAGE LEDGER — token & estimasi biaya per user/provider/model
+ * =======================================================*/
+
+export type UsageKind = 'chat' | 'extraction' | 'summarizer' | 'embedding';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // true = provider tidak melaporkan usage, angka dari estimasi lokal
+  estimated: boolean;
+}
+
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// USD per 1 juta token. Ditambah/ditimpa via env, contoh:
+// MODEL_PRICES_JSON='{"gpt-4o-mini":{"input":0.15,"output":0.6}}'
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-004': { input: 0, output: 0 },
+  mock: { input: 0, output: 0 },
+};
+
+const MODEL_PRICES: Record<string, ModelPrice> = (() => {
+  try {
+    const raw = process.env.MODEL_PRICES_JSON;
+    return raw ? { ...DEFAULT_PRICES, ...JSON.parse(raw) } : DEFAULT_PRICES;
+  } catch {
+    log.error('MODEL_PRICES_JSON bukan JSON valid');
+    return DEFAULT_PRICES;
+  }
+})();
+
+// "gemini-1.5-flash-latest" → harga "gemini-1.5-flash" (prefix terpanjang)
+function priceFor(model: string): ModelPrice | null {
+  const key = Object.keys(MODEL_PRICES)
+    .filter((k) => model === k || model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? MODEL_PRICES[key] : null;
+}
+
+/** Estimasi biaya USD; null kalau harga model tidak diketahui. */
+export function estimateCost(model: string, usage: TokenUsage): number | null {
+  const price = priceFor(model);
+  if (!price) return null;
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+// Bentuk `usage` OpenAI (juga server OpenAI-compatible)
+export function fromOpenAIUsage(raw: unknown): TokenUsage | null {
+  const usage = raw as {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+  if (!usage || typeof usage.prompt_tokens !== 'number') return null;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens ?? 0,
+    estimated: false,
+  };
+}
+
+// Bentuk `usageMetadata` Gemini
+export function fromGeminiUsage(raw: unknown): TokenUsage | null {
+  const usage = raw as {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  } | null;
+  if (!usage || typeof usage.promptTokenCount !== 'number') return null;
+  return {
+    inputTokens: usage.promptTokenCount,
+    outputTokens: usage.candidatesTokenCount ?? 0,
+    estimated: false,
+  };
+}
+
+/** Fallback kalau provider tidak mengembalikan angka usage. */
+export const estimateUsage = (
+  input: string,
+  output: string,
+  model: string
+): TokenUsage => ({
+  inputTokens: countTokens(input, model),
+  outputTokens: countTokens(output, model),
+  estimated: true,
+});
+
+/**
+ * Catat satu panggilan model ke usage_ledger. User & request id
+ * diambil dari request context kalau tidak diisi. Tidak pernah
+ * melempar error: ledger gagal tidak boleh menggagalkan chat.
+ */
+export async function recordUsage(entry: {
+  kind: UsageKind;
+  provider: string;
+  model: string;
+  usage: TokenUsage;
+  userId?: string | null;
+}) {
+  const context = currentRequest();
+  const userId = entry.userId ?? context?.userId ?? null;
+  if (!userId) return;
+
+  const { kind, provider, model, usage } = entry;
+  const { error } = await supabase.from('usage_ledger').insert({
+    user_id: userId,
+    request_id: context?.requestId ?? null,
+    kind,
+    provider,
+    model,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    estimated: usage.estimated,
+    cost_usd: estimateCost(model, usage),
+  });
+  if (error) log.error('insert usage_ledger gagal', { err: error, kind });
+}
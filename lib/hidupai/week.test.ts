@@ -0,0 +1,57 @@
+// File: lib/hidupai/week.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { isoWeek, previousIsoWeek, wibDate } from './week';
+
+describe('isoWeek', () => {
+  it('menghitung minggu ISO & batas Senin 00:00 WIB', () => {
+    // Senin, 19 Okt 2026 10:00 WIB
+    const week = isoWeek(new Date('2026-10-19T03:00:00Z'));
+    expect(week.key).toBe('2026-W43');
+    expect(week.start.toISOString()).toBe('2026-10-18T17:00:00.000Z');
+    expect(week.end.toISOString()).toBe('2026-10-25T17:00:00.000Z');
+  });
+
+  it('memakai jam WIB, bukan UTC, di pergantian minggu', () => {
+    // Minggu 23:30 UTC = Senin 06:30 WIB → sudah minggu baru
+    expect(isoWeek(new Date('2026-10-25T23:30:00Z')).key).toBe('2026-W44');
+    // Senin 16:59 UTC = Senin 23:59 WIB → masih minggu yang sama
+    expect(isoWeek(new Date('2026-10-26T16:59:00Z')).key).toBe('2026-W44');
+    // Minggu 16:59 UTC = Minggu 23:59 WIB → minggu sebelumnya
+    expect(isoWeek(new Date('2026-10-25T16:59:00Z')).key).toBe('2026-W43');
+  });
+
+  it('mengikuti tahun ISO di sekitar tahun baru', () => {
+    // 1 Jan 2027 (Jumat) masih milik 2026-W53
+    expect(isoWeek(new Date('2027-01-01T05:00:00Z')).key).toBe('2026-W53');
+    // 31 Des 2024 (Selasa) sudah 2025-W01
+    expect(isoWeek(new Date('2024-12-31T05:00:00Z')).key).toBe('2025-W01');
+    // 4 Jan selalu di W01
+    expect(isoWeek(new Date('2026-01-04T05:00:00Z')).key).toBe('2026-W01');
+  });
+
+  it('start/end selalu berjarak tepat 7 hari', () => {
+    const week = isoWeek(new Date('2026-03-29T12:00:00Z'));
+    expect(week.end.getTime() - week.start.getTime()).toBe(
+      7 * 24 * 60 * 60 * 1000
+    );
+  });
+});
+
+describe('previousIsoWeek', () => {
+  it('mengembalikan minggu sebelumnya, termasuk lintas tahun', () => {
+    expect(previousIsoWeek(new Date('2026-10-19T03:00:00Z')).key).toBe(
+      '2026-W42'
+    );
+    expect(previousIsoWeek(new Date('2025-12-29T03:00:00Z')).key).toBe(
+      '2025-W52'
+    );
+  });
+});
+
+describe('wibDate', () => {
+  it('mengembalikan tanggal kalender WIB', () => {
+    expect(wibDate(new Date('2026-10-19T16:59:00Z'))).toBe('2026-10-19');
+    expect(wibDate(new Date('2026-10-19T17:00:00Z'))).toBe('2026-10-20');
+  });
+});
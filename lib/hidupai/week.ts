@@ -0,0 +1,44 @@
+// File: lib/hidupai/week.ts
+
+/* =========================================================
+ *  MINGGU ISO — dihitung dalam WIB (UTC+7, tanpa DST)
+ * =======================================================*/
+
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface IsoWeek {
+  key: string; // contoh: 2026-W42
+  start: Date; // Senin 00:00 WIB (dalam UTC)
+  end: Date; // Senin berikutnya
+}
+
+export function isoWeek(date: Date): IsoWeek {
+  const local = new Date(date.getTime() + WIB_OFFSET_MS);
+  const day = (local.getUTCDay() + 6) % 7; // Senin = 0
+  const monday = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate() - day
+  );
+
+  // Tahun ISO ditentukan oleh hari Kamis di minggu tersebut
+  const thursday = new Date(monday + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week =
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) +
+    1;
+
+  return {
+    key: `${year}-W${String(week).padStart(2, '0')}`,
+    start: new Date(monday - WIB_OFFSET_MS),
+    end: new Date(monday - WIB_OFFSET_MS + 7 * DAY_MS),
+  };
+}
+
+export const previousIsoWeek = (date: Date) =>
+  isoWeek(new Date(date.getTime() - 7 * DAY_MS));
+
+/** Tanggal kalender WIB (YYYY-MM-DD), untuk membandingkan target_date. */
+export const wibDate = (date: Date) =>
+  new Date(date.getTime() + WIB_OFFSET_MS).toISOString().slice(0, 10);
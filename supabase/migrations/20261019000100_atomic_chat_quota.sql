@@ -0,0 +1,58 @@
+-- Kuota chat atomik per plan.
+-- consume_chat_quota: cek + increment dalam satu UPDATE (row lock),
+-- refund_chat_quota: kembalikan 1 kuota kalau model gagal menjawab.
+
+alter table public.users
+  add column if not exists plan text;
+
+create or replace function public.consume_chat_quota(
+  p_user_id uuid,
+  p_limit integer
+)
+returns table (allowed boolean, used integer, day date)
+language plpgsql
+as $$
+declare
+  v_today date := (now() at time zone 'utc')::date;
+  v_used integer;
+begin
+  update public.users u
+     set usage_today = case
+           when u.last_used::date = v_today then coalesce(u.usage_today, 0) + 1
+           else 1
+         end,
+         last_used = v_today
+   where u.id = p_user_id
+     and (
+       p_limit is null
+       or u.last_used is null
+       or u.last_used::date <> v_today
+       or coalesce(u.usage_today, 0) < p_limit
+     )
+  returning u.usage_today into v_used;
+
+  if found then
+    return query select true, v_used, v_today;
+    return;
+  end if;
+
+  select coalesce(u.usage_today, 0) into v_used
+    from public.users u
+   where u.id = p_user_id;
+
+  return query select false, coalesce(v_used, 0), v_today;
+end;
+$$;
+
+create or replace function public.refund_chat_quota(
+  p_user_id uuid,
+  p_day date
+)
+returns void
+language sql
+as $$
+  update public.users
+     set usage_today = greatest(coalesce(usage_today, 0) - 1, 0)
+   where id = p_user_id
+     and last_used::date = p_day;
+$$;
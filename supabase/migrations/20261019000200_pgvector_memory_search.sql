@@ -0,0 +1,94 @@
+-- Similarity search memori pakai pgvector (menggantikan cosine di JS).
+-- Kolom JSONB `embedding` tetap ada untuk kompatibilitas; trigger mengisi
+-- `embedding_vec` otomatis, dan backfill_memory_embedding_vectors()
+-- memigrasikan baris lama secara bertahap.
+
+create extension if not exists vector;
+
+alter table public.memory_embeddings
+  add column if not exists embedding_vec vector(1536);
+
+create index if not exists memory_embeddings_embedding_vec_idx
+  on public.memory_embeddings
+  using hnsw (embedding_vec vector_cosine_ops);
+
+create index if not exists memory_embeddings_user_id_idx
+  on public.memory_embeddings (user_id);
+
+-- Sinkron JSONB → vector untuk insert/update baru
+create or replace function public.memory_embeddings_sync_vec()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.embedding is not null
+     and jsonb_typeof(new.embedding) = 'array'
+     and jsonb_array_length(new.embedding) = 1536 then
+    new.embedding_vec := (new.embedding::text)::vector;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists memory_embeddings_sync_vec on public.memory_embeddings;
+create trigger memory_embeddings_sync_vec
+  before insert or update of embedding on public.memory_embeddings
+  for each row execute function public.memory_embeddings_sync_vec();
+
+-- Backfill bertahap: panggil berulang sampai mengembalikan 0
+--   select public.backfill_memory_embedding_vectors(1000);
+create or replace function public.backfill_memory_embedding_vectors(
+  p_batch integer default 1000
+)
+returns integer
+language plpgsql
+as $$
+declare
+  v_count integer;
+begin
+  with batch as (
+    select id
+      from public.memory_embeddings
+     where embedding_vec is null
+       and jsonb_typeof(embedding) = 'array'
+       and jsonb_array_length(embedding) = 1536
+     limit p_batch
+     for update skip locked
+  )
+  update public.memory_embeddings m
+     set embedding_vec = (m.embedding::text)::vector
+    from batch
+   where m.id = batch.id;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+-- Top-k memori paling mirip di seluruh histori user
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_query vector(1536),
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector(1536)
+)
+language sql
+stable
+as $$
+  select m.id,
+         m.content,
+         1 - (m.embedding_vec <=> p_query) as similarity,
+         m.embedding_vec as embedding
+    from public.memory_embeddings m
+   where m.user_id = p_user_id
+     and m.embedding_vec is not null
+     and 1 - (m.embedding_vec <=> p_query) > p_match_threshold
+   order by m.embedding_vec <=> p_query
+   limit p_match_count;
+$$;
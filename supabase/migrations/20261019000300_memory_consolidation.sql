@@ -0,0 +1,22 @@
+-- Riwayat konsolidasi users.long_term_memory.
+-- Setiap baris long_term_memories menunjuk ke ringkasan tempat ia dilebur.
+
+create table if not exists public.memory_consolidations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  summary text not null,
+  source_count integer not null default 0,
+  method text not null default 'model',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists memory_consolidations_user_id_idx
+  on public.memory_consolidations (user_id, created_at desc);
+
+alter table public.long_term_memories
+  add column if not exists consolidation_id uuid
+    references public.memory_consolidations (id) on delete set null;
+
+create index if not exists long_term_memories_pending_idx
+  on public.long_term_memories (user_id)
+  where consolidation_id is null;
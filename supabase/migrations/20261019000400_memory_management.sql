@@ -0,0 +1,19 @@
+-- Manajemen memori oleh user: pin + embedding untuk insight.
+
+alter table public.long_term_memories
+  add column if not exists pinned boolean not null default false;
+
+alter table public.episodic_memories
+  add column if not exists pinned boolean not null default false;
+
+create index if not exists long_term_memories_pinned_idx
+  on public.long_term_memories (user_id)
+  where pinned;
+
+create index if not exists episodic_memories_pinned_idx
+  on public.episodic_memories (user_id)
+  where pinned;
+
+-- Cascade forget berdasarkan source_id
+create index if not exists memory_embeddings_source_id_idx
+  on public.memory_embeddings (user_id, source_id);
@@ -0,0 +1,12 @@
+-- Log ekspor data pribadi (dipakai untuk rate limit /api/export).
+
+create table if not exists public.data_exports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  format text not null,
+  version text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists data_exports_user_id_idx
+  on public.data_exports (user_id, created_at desc);
@@ -0,0 +1,18 @@
+-- Event keselamatan (crisis / self-harm / abuse) untuk direview tim.
+
+create table if not exists public.safety_flags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  risk text not null check (risk in ('medium', 'high')),
+  category text,
+  source text,
+  matches text[] not null default '{}',
+  message text not null,
+  reviewed_at timestamptz,
+  reviewed_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists safety_flags_unreviewed_idx
+  on public.safety_flags (created_at desc)
+  where reviewed_at is null;
@@ -0,0 +1,23 @@
+-- Registry mode chat: mode global (owner_id null) + mode personal premium.
+-- Mode bawaan ada di lib/hidupai/modes.v1.json; baris global di sini
+-- bisa menambah atau menimpa mode bawaan tanpa redeploy.
+
+create table if not exists public.chat_modes (
+  id uuid primary key default gen_random_uuid(),
+  slug text not null check (slug ~ '^[a-z0-9_-]{2,32}$'),
+  owner_id uuid references public.users (id) on delete cascade,
+  label text not null,
+  prompt text not null check (char_length(prompt) <= 2000),
+  temperature numeric check (temperature between 0 and 2),
+  model jsonb,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists chat_modes_global_slug_idx
+  on public.chat_modes (slug)
+  where owner_id is null;
+
+create unique index if not exists chat_modes_owner_slug_idx
+  on public.chat_modes (owner_id, slug)
+  where owner_id is not null;
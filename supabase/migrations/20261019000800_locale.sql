@@ -0,0 +1,9 @@
+-- Bahasa user (id | en | ms) + terjemahan mode
+
+alter table public.users
+  add column if not exists locale text
+    check (locale is null or locale in ('id', 'en', 'ms'));
+
+-- { "en": { "label": "...", "prompt": "..." }, "ms": { ... } }
+alter table public.chat_modes
+  add column if not exists i18n jsonb;
@@ -0,0 +1,30 @@
+-- Thread percakapan + pesan, supaya histori tidak hanya ada di client.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  title text check (title is null or char_length(title) <= 120),
+  created_at timestamptz not null default now(),
+  last_message_at timestamptz not null default now()
+);
+
+create index if not exists conversations_user_recent_idx
+  on public.conversations (user_id, last_message_at desc);
+
+create table if not exists public.conversation_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null
+    references public.conversations (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  -- provider, model, mode dari jawaban (kalau role = assistant)
+  meta jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists conversation_messages_thread_idx
+  on public.conversation_messages (conversation_id, created_at desc);
+
+create index if not exists conversation_messages_user_recent_idx
+  on public.conversation_messages (user_id, created_at desc);
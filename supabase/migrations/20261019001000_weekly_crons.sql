@@ -0,0 +1,66 @@
+-- Cron mingguan: weekly insight + check-in.
+-- cron_runs menyimpan progres per (job, periode) supaya bisa dilanjutkan
+-- per batch dan tidak jalan dua kali untuk minggu yang sama.
+
+create table if not exists public.cron_runs (
+  job text not null,
+  period text not null,
+  status text not null default 'running'
+    check (status in ('running', 'done')),
+  cursor_id uuid,
+  processed integer not null default 0,
+  generated integer not null default 0,
+  locked_until timestamptz,
+  started_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz,
+  primary key (job, period)
+);
+
+create table if not exists public.weekly_insights (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  week text not null,
+  weekly_goal text,
+  summary text not null,
+  source_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (user_id, week)
+);
+
+create table if not exists public.checkins (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  week text not null,
+  message text not null,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, week)
+);
+
+-- Klaim run secara atomik: null kalau sudah selesai atau sedang dikunci
+-- oleh pemanggilan lain.
+create or replace function public.claim_cron_run(
+  p_job text,
+  p_period text,
+  p_lock_seconds integer
+)
+returns table (cursor_id uuid, processed integer, generated integer)
+language plpgsql
+as $$
+begin
+  insert into public.cron_runs (job, period)
+  values (p_job, p_period)
+  on conflict (job, period) do nothing;
+
+  return query
+  update public.cron_runs r
+     set locked_until = now() + make_interval(secs => p_lock_seconds),
+         updated_at = now()
+   where r.job = p_job
+     and r.period = p_period
+     and r.status = 'running'
+     and (r.locked_until is null or r.locked_until < now())
+  returning r.cursor_id, r.processed, r.generated;
+end;
+$$;
@@ -0,0 +1,46 @@
+-- Tujuan mingguan terstruktur: beberapa goal per minggu, status,
+-- target tanggal, milestone, dan log progres dari chat.
+
+create table if not exists public.goals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  week text not null,
+  title text not null check (char_length(title) between 1 and 200),
+  status text not null default 'active'
+    check (status in ('active', 'done', 'dropped')),
+  target_date date,
+  -- [{ "title": "...", "done": false, "done_at": null }]
+  milestones jsonb not null default '[]'::jsonb,
+  progress_note text,
+  last_progress_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists goals_user_week_idx
+  on public.goals (user_id, week);
+
+create index if not exists goals_user_active_idx
+  on public.goals (user_id, target_date)
+  where status = 'active';
+
+create table if not exists public.goal_progress (
+  id uuid primary key default gen_random_uuid(),
+  goal_id uuid not null references public.goals (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  note text not null,
+  source text not null default 'chat' check (source in ('chat', 'manual')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists goal_progress_goal_idx
+  on public.goal_progress (goal_id, created_at desc);
+
+-- weekly_goal lama → satu goal aktif di minggu berjalan (WIB)
+insert into public.goals (user_id, week, title)
+select u.id,
+       to_char((now() at time zone 'Asia/Jakarta')::date, 'IYYY-"W"IW'),
+       left(u.weekly_goal, 200)
+  from public.users u
+ where coalesce(trim(u.weekly_goal), '') <> ''
+   and not exists (select 1 from public.goals g where g.user_id = u.id);
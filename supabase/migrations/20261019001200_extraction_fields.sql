@@ -0,0 +1,10 @@
+-- Field tambahan dari ekstraksi terstruktur (lib/hidupai/extraction.ts)
+
+alter table public.episodic_memories
+  add column if not exists importance smallint
+    check (importance between 1 and 5),
+  add column if not exists emotion text;
+
+alter table public.long_term_memories
+  add column if not exists importance smallint
+    check (importance between 1 and 5);
@@ -0,0 +1,83 @@
+-- Outbox memory engine: setiap giliran chat jadi satu job yang diproses
+-- worker dengan retry + backoff. Job yang gagal terus berakhir 'dead'.
+
+create table if not exists public.memory_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.users (id) on delete cascade,
+  -- sha256(user + pesan + jawaban): giliran yang sama hanya masuk sekali
+  idempotency_key text not null unique,
+  -- { name, locale, lastUserMessage, aiMessage }
+  payload jsonb not null,
+  -- hasil ekstraksi, disimpan supaya retry tidak memanggil model lagi
+  result jsonb,
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'done', 'dead')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  next_run_at timestamptz not null default now(),
+  locked_until timestamptz,
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists memory_jobs_ready_idx
+  on public.memory_jobs (next_run_at)
+  where status in ('pending', 'running');
+
+create index if not exists memory_jobs_dead_idx
+  on public.memory_jobs (updated_at desc)
+  where status = 'dead';
+
+-- Idempotency key per tulisan job (<job id>:insight, :episodic, ...)
+-- supaya retry tidak menggandakan insight, episode, embedding, progres.
+alter table public.long_term_memories
+  add column if not exists idempotency_key text unique;
+alter table public.episodic_memories
+  add column if not exists idempotency_key text unique;
+alter table public.memory_embeddings
+  add column if not exists idempotency_key text unique;
+alter table public.goal_progress
+  add column if not exists idempotency_key text unique;
+
+-- Klaim job siap jalan: pending yang sudah waktunya, atau running yang
+-- lock-nya kedaluwarsa (fungsi serverless dibekukan di tengah jalan).
+-- skip locked → beberapa worker paralel tidak mengambil job yang sama.
+create or replace function public.claim_memory_jobs(
+  p_limit integer,
+  p_lock_seconds integer
+)
+returns setof public.memory_jobs
+language plpgsql
+as $$
+begin
+  -- Attempt terakhir tidak pernah selesai → dead letter
+  update public.memory_jobs
+     set status = 'dead',
+         last_error = coalesce(last_error, 'lock kedaluwarsa'),
+         locked_until = null,
+         finished_at = now(),
+         updated_at = now()
+   where status = 'running'
+     and locked_until < now()
+     and attempts >= max_attempts;
+
+  return query
+  update public.memory_jobs j
+     set status = 'running',
+         attempts = j.attempts + 1,
+         locked_until = now() + make_interval(secs => p_lock_seconds),
+         updated_at = now()
+   where j.id in (
+     select q.id
+       from public.memory_jobs q
+      where (q.status = 'pending' and q.next_run_at <= now())
+         or (q.status = 'running' and q.locked_until < now())
+      order by q.next_run_at
+      limit p_limit
+      for update skip locked
+   )
+  returning j.*;
+end;
+$$;
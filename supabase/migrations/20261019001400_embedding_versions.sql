@@ -0,0 +1,84 @@
+-- Versi embedding: setiap vektor mencatat model + dimensinya, retrieval
+-- hanya membandingkan vektor dari model yang sama, dan embedding_cache
+-- menyimpan hasil per (model, hash konten) supaya teks yang sama tidak
+-- di-embed ulang.
+
+alter table public.memory_embeddings
+  add column if not exists model text,
+  add column if not exists dims integer;
+
+-- Model baris lama tidak tercatat (bisa OpenAI, bisa mock — dimensinya
+-- sama-sama 1536), jadi model dibiarkan null = tidak diketahui. Retrieval
+-- melewati baris ini sampai cron reembed memindahkannya ke ruang vektor
+-- aktif; jalankan /api/cron/reembed setelah deploy.
+update public.memory_embeddings
+   set dims = jsonb_array_length(embedding)
+ where dims is null
+   and jsonb_typeof(embedding) = 'array';
+
+create index if not exists memory_embeddings_user_model_idx
+  on public.memory_embeddings (user_id, model);
+
+-- dims selalu ikut panjang array, apa pun yang dikirim aplikasi
+create or replace function public.memory_embeddings_sync_vec()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.embedding is not null and jsonb_typeof(new.embedding) = 'array' then
+    new.dims := jsonb_array_length(new.embedding);
+    -- Kolom vector (dan index HNSW) hanya untuk dimensi 1536; vektor
+    -- lama dikosongkan supaya re-embed tidak menyisakan vektor basi
+    new.embedding_vec := case
+      when new.dims = 1536 then (new.embedding::text)::vector
+      else null
+    end;
+  end if;
+  return new;
+end;
+$$;
+
+-- Cache global: hanya hash konten (sha256) + vektor, tanpa teks dan
+-- tanpa user_id
+create table if not exists public.embedding_cache (
+  model text not null,
+  content_hash text not null,
+  dims integer not null,
+  embedding jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (model, content_hash)
+);
+
+-- Retrieval dibatasi ke model yang sama dengan vektor query
+drop function if exists public.match_memory_embeddings(
+  uuid, vector, double precision, integer
+);
+
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_model text,
+  p_query vector(1536),
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector(1536)
+)
+language sql
+stable
+as $$
+  select m.id,
+         m.content,
+         1 - (m.embedding_vec <=> p_query) as similarity,
+         m.embedding_vec as embedding
+    from public.memory_embeddings m
+   where m.user_id = p_user_id
+     and m.model = p_model
+     and m.embedding_vec is not null
+     and 1 - (m.embedding_vec <=> p_query) > p_match_threshold
+   order by m.embedding_vec <=> p_query
+   limit p_match_count;
+$$;
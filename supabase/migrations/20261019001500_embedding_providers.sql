@@ -0,0 +1,109 @@
+-- Embedding lintas provider (OpenAI, server lokal, Gemini): setiap
+-- vektor ditandai provider + model. Model selain 1536 dimensi (mis.
+-- Gemini text-embedding-004 = 768) disimpan di embedding_any dan dicari
+-- tanpa index — cukup cepat karena selalu difilter per user.
+
+alter table public.memory_embeddings
+  add column if not exists provider text,
+  add column if not exists embedding_any vector;
+
+-- Model null = ruang vektor tidak diketahui: provider ikut null supaya
+-- baris itu tetap dipilih cron reembed
+update public.memory_embeddings
+   set provider = case when model = 'mock-hash-v1' then 'mock' else 'openai' end
+ where provider is null
+   and model is not null;
+
+drop index if exists public.memory_embeddings_user_model_idx;
+create index if not exists memory_embeddings_user_space_idx
+  on public.memory_embeddings (user_id, provider, model);
+
+create or replace function public.memory_embeddings_sync_vec()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.embedding is not null and jsonb_typeof(new.embedding) = 'array' then
+    new.dims := jsonb_array_length(new.embedding);
+    -- 1536 → kolom ber-index HNSW; dimensi lain → embedding_any
+    if new.dims = 1536 then
+      new.embedding_vec := (new.embedding::text)::vector;
+      new.embedding_any := null;
+    else
+      new.embedding_vec := null;
+      new.embedding_any := (new.embedding::text)::vector;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+-- Cache per ruang vektor (provider + model)
+alter table public.embedding_cache
+  add column if not exists provider text;
+
+update public.embedding_cache
+   set provider = case when model = 'mock-hash-v1' then 'mock' else 'openai' end
+ where provider is null;
+
+alter table public.embedding_cache
+  alter column provider set not null,
+  drop constraint if exists embedding_cache_pkey,
+  add primary key (provider, model, content_hash);
+
+drop function if exists public.match_memory_embeddings(
+  uuid, text, vector, double precision, integer
+);
+
+-- Top-k memori paling mirip, hanya dari ruang vektor yang sama dengan
+-- query (provider + model + dimensi)
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_query vector,
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector
+)
+language plpgsql
+stable
+as $$
+begin
+  if vector_dims(p_query) = 1536 then
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_vec <=> p_query::vector(1536)) as similarity,
+           m.embedding_vec::vector as embedding
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and m.embedding_vec is not null
+       and 1 - (m.embedding_vec <=> p_query::vector(1536)) > p_match_threshold
+     order by m.embedding_vec <=> p_query::vector(1536)
+     limit p_match_count;
+  else
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_any <=> p_query) as similarity,
+           m.embedding_any as embedding
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and m.dims = vector_dims(p_query)
+       and m.embedding_any is not null
+       and 1 - (m.embedding_any <=> p_query) > p_match_threshold
+     order by m.embedding_any <=> p_query
+     limit p_match_count;
+  end if;
+end;
+$$;
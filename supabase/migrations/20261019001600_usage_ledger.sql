@@ -0,0 +1,44 @@
+-- Usage ledger: satu baris per panggilan model (chat, ekstraksi,
+-- summarizer, embedding) dengan token + estimasi biaya, untuk melihat
+-- biaya per user / provider / model.
+
+create table if not exists public.usage_ledger (
+  id bigint generated always as identity primary key,
+  -- Tetap tercatat untuk akuntansi walau user dihapus
+  user_id uuid references public.users (id) on delete set null,
+  -- x-request-id; job memory dari request yang sama memakai id yang sama
+  request_id text,
+  kind text not null
+    check (kind in ('chat', 'extraction', 'summarizer', 'embedding')),
+  provider text not null,
+  model text not null,
+  input_tokens integer not null default 0,
+  output_tokens integer not null default 0,
+  -- true = provider tidak melaporkan usage, token diestimasi
+  estimated boolean not null default false,
+  -- null = harga model tidak diketahui (lihat MODEL_PRICES_JSON)
+  cost_usd numeric(12, 6),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_ledger_user_created_idx
+  on public.usage_ledger (user_id, created_at desc);
+
+create index if not exists usage_ledger_request_idx
+  on public.usage_ledger (request_id);
+
+-- Rekap harian per user, provider, model
+create or replace view public.usage_daily as
+select
+  (created_at at time zone 'utc')::date as day,
+  user_id,
+  provider,
+  model,
+  kind,
+  count(*) as calls,
+  sum(input_tokens) as input_tokens,
+  sum(output_tokens) as output_tokens,
+  sum(cost_usd) as cost_usd,
+  bool_or(estimated) as has_estimates
+from public.usage_ledger
+group by 1, 2, 3, 4, 5;
@@ -0,0 +1,96 @@
+-- Karantina memori: insight / episode / embedding yang terlihat seperti
+-- instruksi ke model (prompt injection) tetap disimpan, tapi tidak ikut
+-- prompt, retrieval, ringkasan, maupun cron sampai direview user/admin.
+
+alter table public.long_term_memories
+  add column if not exists quarantined boolean not null default false,
+  add column if not exists quarantine_reason text,
+  add column if not exists reviewed_at timestamptz;
+
+alter table public.episodic_memories
+  add column if not exists quarantined boolean not null default false,
+  add column if not exists quarantine_reason text,
+  add column if not exists reviewed_at timestamptz;
+
+alter table public.memory_embeddings
+  add column if not exists quarantined boolean not null default false,
+  add column if not exists quarantine_reason text,
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists long_term_memories_quarantined_idx
+  on public.long_term_memories (user_id, created_at desc)
+  where quarantined;
+create index if not exists episodic_memories_quarantined_idx
+  on public.episodic_memories (user_id, created_at desc)
+  where quarantined;
+create index if not exists memory_embeddings_quarantined_idx
+  on public.memory_embeddings (user_id, created_at desc)
+  where quarantined;
+
+-- Antrean review admin (service role / dashboard)
+create or replace view public.quarantined_memories as
+select 'insights' as kind, id, user_id, content, quarantine_reason, created_at
+  from public.long_term_memories
+ where quarantined
+union all
+select 'episodes', id, user_id, summary, quarantine_reason, created_at
+  from public.episodic_memories
+ where quarantined
+union all
+select 'embeddings', id, user_id, content, quarantine_reason, created_at
+  from public.memory_embeddings
+ where quarantined;
+
+-- Retrieval: sama seperti sebelumnya, tanpa embedding yang dikarantina
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_query vector,
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector
+)
+language plpgsql
+stable
+as $$
+begin
+  if vector_dims(p_query) = 1536 then
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_vec <=> p_query::vector(1536)) as similarity,
+           m.embedding_vec::vector as embedding
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.embedding_vec is not null
+       and 1 - (m.embedding_vec <=> p_query::vector(1536)) > p_match_threshold
+     order by m.embedding_vec <=> p_query::vector(1536)
+     limit p_match_count;
+  else
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_any <=> p_query) as similarity,
+           m.embedding_any as embedding
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.dims = vector_dims(p_query)
+       and m.embedding_any is not null
+       and 1 - (m.embedding_any <=> p_query) > p_match_threshold
+     order by m.embedding_any <=> p_query
+     limit p_match_count;
+  end if;
+end;
+$$;
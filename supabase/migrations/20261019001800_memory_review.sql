@@ -0,0 +1,63 @@
+-- Hasil review karantina ikut dikembalikan retrieval: embedding yang
+-- sudah direview dipercaya apa adanya, yang belum tetap di-screen
+-- di server sebelum masuk prompt.
+
+drop function if exists public.match_memory_embeddings(
+  uuid, text, text, vector, double precision, integer
+);
+
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_query vector,
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector,
+  reviewed_at timestamptz
+)
+language plpgsql
+stable
+as $$
+begin
+  if vector_dims(p_query) = 1536 then
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_vec <=> p_query::vector(1536)) as similarity,
+           m.embedding_vec::vector as embedding,
+           m.reviewed_at
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.embedding_vec is not null
+       and 1 - (m.embedding_vec <=> p_query::vector(1536)) > p_match_threshold
+     order by m.embedding_vec <=> p_query::vector(1536)
+     limit p_match_count;
+  else
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_any <=> p_query) as similarity,
+           m.embedding_any as embedding,
+           m.reviewed_at
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.dims = vector_dims(p_query)
+       and m.embedding_any is not null
+       and 1 - (m.embedding_any <=> p_query) > p_match_threshold
+     order by m.embedding_any <=> p_query
+     limit p_match_count;
+  end if;
+end;
+$$;
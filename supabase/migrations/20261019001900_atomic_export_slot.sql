@@ -0,0 +1,41 @@
+-- Rate limit ekspor atomik.
+-- claim_export_slot: kunci baris user, hitung ekspor dalam jendela
+-- waktu, lalu catat ekspor baru dalam satu transaksi, jadi request
+-- paralel tidak bisa menembus limit.
+
+create or replace function public.claim_export_slot(
+  p_user_id uuid,
+  p_format text,
+  p_version text,
+  p_limit integer,
+  p_window interval default interval '24 hours'
+)
+returns table (allowed boolean, used integer, export_id uuid)
+language plpgsql
+as $$
+declare
+  v_used integer;
+  v_id uuid;
+begin
+  perform 1
+    from public.users u
+   where u.id = p_user_id
+     for update;
+
+  select count(*) into v_used
+    from public.data_exports e
+   where e.user_id = p_user_id
+     and e.created_at >= now() - p_window;
+
+  if p_limit is not null and v_used >= p_limit then
+    return query select false, v_used, null::uuid;
+    return;
+  end if;
+
+  insert into public.data_exports (user_id, format, version)
+  values (p_user_id, p_format, p_version)
+  returning id into v_id;
+
+  return query select true, v_used + 1, v_id;
+end;
+$$;
@@ -0,0 +1,50 @@
+-- claim_export_slot juga mengembalikan retry_at: kapan ekspor tertua di
+-- jendela waktu kedaluwarsa, supaya Retry-After di API akurat.
+-- Tipe return berubah, jadi fungsi lama harus di-drop dulu.
+
+drop function if exists public.claim_export_slot(
+  uuid, text, text, integer, interval
+);
+
+create function public.claim_export_slot(
+  p_user_id uuid,
+  p_format text,
+  p_version text,
+  p_limit integer,
+  p_window interval default interval '24 hours'
+)
+returns table (
+  allowed boolean,
+  used integer,
+  export_id uuid,
+  retry_at timestamptz
+)
+language plpgsql
+as $$
+declare
+  v_used integer;
+  v_oldest timestamptz;
+  v_id uuid;
+begin
+  perform 1
+    from public.users u
+   where u.id = p_user_id
+     for update;
+
+  select count(*), min(e.created_at) into v_used, v_oldest
+    from public.data_exports e
+   where e.user_id = p_user_id
+     and e.created_at >= now() - p_window;
+
+  if p_limit is not null and v_used >= p_limit then
+    return query select false, v_used, null::uuid, v_oldest + p_window;
+    return;
+  end if;
+
+  insert into public.data_exports (user_id, format, version)
+  values (p_user_id, p_format, p_version)
+  returning id into v_id;
+
+  return query select true, v_used + 1, v_id, null::timestamptz;
+end;
+$$;
@@ -0,0 +1,73 @@
+-- Recall retrieval per user. Index HNSW di embedding_vec dibangun untuk
+-- semua user; tanpa iterative scan, pgvector hanya mengambil ef_search
+-- kandidat terdekat secara global lalu memfilter user_id/provider/model,
+-- jadi user dengan sedikit memori sering dapat < p_match_count baris.
+--
+-- hnsw.iterative_scan (pgvector >= 0.8) membuat scan terus berjalan
+-- sampai cukup baris lolos filter, dibatasi hnsw.max_scan_tuples
+-- (default 20.000). strict_order menjaga urutan jarak tetap benar.
+-- ef_search 100 memperbanyak kandidat tiap putaran.
+--
+-- Perkiraan recall: mendekati exact scan untuk user dengan ribuan
+-- memori; hanya turun kalau 20.000 tuple terdekat secara global tidak
+-- memuat cukup memori user tersebut (populasi sangat besar + user
+-- sangat kecil). Cabang embedding_any (dimensi lain) tidak ber-index,
+-- jadi selalu exact scan.
+
+create or replace function public.match_memory_embeddings(
+  p_user_id uuid,
+  p_provider text,
+  p_model text,
+  p_query vector,
+  p_match_threshold double precision default 0.65,
+  p_match_count integer default 5
+)
+returns table (
+  id uuid,
+  content text,
+  similarity double precision,
+  embedding vector,
+  reviewed_at timestamptz
+)
+language plpgsql
+stable
+set hnsw.iterative_scan = strict_order
+set hnsw.ef_search = 100
+as $$
+begin
+  if vector_dims(p_query) = 1536 then
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_vec <=> p_query::vector(1536)) as similarity,
+           m.embedding_vec::vector as embedding,
+           m.reviewed_at
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.embedding_vec is not null
+       and 1 - (m.embedding_vec <=> p_query::vector(1536)) > p_match_threshold
+     order by m.embedding_vec <=> p_query::vector(1536)
+     limit p_match_count;
+  else
+    return query
+    select m.id,
+           m.content,
+           1 - (m.embedding_any <=> p_query) as similarity,
+           m.embedding_any as embedding,
+           m.reviewed_at
+      from public.memory_embeddings m
+     where m.user_id = p_user_id
+       and m.provider = p_provider
+       and m.model = p_model
+       and not m.quarantined
+       and m.dims = vector_dims(p_query)
+       and m.embedding_any is not null
+       and 1 - (m.embedding_any <=> p_query) > p_match_threshold
+     order by m.embedding_any <=> p_query
+     limit p_match_count;
+  end if;
+end;
+$$;
@@ -0,0 +1,23 @@
+-- Tambah satu insight ke users.long_term_memory secara atomik. Update
+-- mengunci baris user, jadi job memori paralel tidak saling menimpa
+-- (read-modify-write di aplikasi bisa kehilangan insight). Baris yang
+-- sudah ada (retry job) tidak ditambahkan lagi. Mengembalikan summary
+-- terbaru.
+
+create or replace function public.append_long_term_memory(
+  p_user_id uuid,
+  p_line text
+)
+returns text
+language sql
+as $$
+  update public.users u
+     set long_term_memory = case
+           when coalesce(u.long_term_memory, '') = '' then p_line
+           when p_line = any (string_to_array(u.long_term_memory, E'\n'))
+             then u.long_term_memory
+           else u.long_term_memory || E'\n' || p_line
+         end
+   where u.id = p_user_id
+  returning u.long_term_memory;
+$$;
@@ -0,0 +1,16 @@
+// File: vitest.config.ts
+
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Samakan alias `@/` dengan paths di tsconfig, supaya route bisa dites
+export default defineConfig({
+  resolve: {
+    alias: [
+      {
+        find: /^@\//,
+        replacement: fileURLToPath(new URL('./', import.meta.url)),
+      },
+    ],
+  },
+});